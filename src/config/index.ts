@@ -29,10 +29,29 @@ export const DEFAULT_CONTENT_TYPE = requireEnv('DEFAULT_CONTENT_TYPE', 'applicat
 export const MAX_RESULT_WINDOW = requireEnv('MAX_RESULT_WINDOW', String(100));
 export const MAX_PAYLOAD_SIZE = requireEnv('MAX_PAYLOAD_SIZE', '15mb'); // MongoDB maximum document size is 16 MB;
 export const KEEP_METRIC_VERSIONS = requireEnv('KEEP_METRIC_VERSIONS', String(false));
+export const REQUIRE_METRIC_DEFINITIONS = requireEnv('REQUIRE_METRIC_DEFINITIONS', String(false)); // reject results without a definition;
+export const METRIC_DEAD_LETTER_TTL = requireEnv('METRIC_DEAD_LETTER_TTL', String(60 * 60 * 24 * 30)); // (30 days);
+export const METRIC_RETENTION_POLICIES = requireEnv('METRIC_RETENTION_POLICIES', '{}'); // per slug, e.g. {"tree-loss":{"type":"last","value":5}};
+export const METRIC_JOB_BATCH_SIZE = requireEnv('METRIC_JOB_BATCH_SIZE', String(50)); // events published per batch;
+export const METRIC_JOB_BATCH_DELAY = requireEnv('METRIC_JOB_BATCH_DELAY', String(1000)); // (1 second) between batches;
+export const METRIC_JOB_MAX_LOCATIONS = requireEnv('METRIC_JOB_MAX_LOCATIONS', String(10000));
+export const METRIC_JOB_TASK_TIMEOUT = requireEnv('METRIC_JOB_TASK_TIMEOUT', String(60 * 60)); // (one hour) since dispatching a task;
+export const OPERATION_TTL = requireEnv('OPERATION_TTL', String(60 * 60 * 24 * 7)); // (7 days);
+export const EXPORT_JOB_TTL = requireEnv('EXPORT_JOB_TTL', String(60 * 60 * 24 * 7)); // (7 days);
+export const EXPORT_URL_TTL = requireEnv('EXPORT_URL_TTL', String(60 * 60)); // (one hour) signed download URLs;
+export const METRIC_RECOMPUTE_ON_CHANGE = requireEnv('METRIC_RECOMPUTE_ON_CHANGE', String(false)); // recompute metrics on shape change;
+export const METRIC_RECOMPUTE_DEBOUNCE = requireEnv('METRIC_RECOMPUTE_DEBOUNCE', String(60 * 5)); // (5 minutes) since the last shape change;
+export const METRIC_LOCAL_PROVIDERS = requireEnv('METRIC_LOCAL_PROVIDERS', ''); // comma separated slugs computed in-process, e.g. area,perimeter;
 export const API_MAP_TILES_TTL = requireEnv('API_MAP_TILES_TTL', String(31536000)); // (one year);
+export const API_VECTOR_TILES_TTL = requireEnv('API_VECTOR_TILES_TTL', String(60)); // (one minute);
 export const AWS_REGION = requireEnv('AWS_REGION', 'us-east-1');
 export const REDIS_CACHE_TTL = requireEnv('REDIS_CACHE_TTL', String(60 * 10)); // (10 minutes);
 export const REDIS_LOCK_TTL = requireEnv('REDIS_LOCK_TTL', String(30 * 1000)); // (30 seconds);
+export const REDIS_GEOMETRY_CACHE_TTL = requireEnv('REDIS_GEOMETRY_CACHE_TTL', String(60 * 60 * 24)); // (one day);
+export const REDIS_STATS_CACHE_TTL = requireEnv('REDIS_STATS_CACHE_TTL', String(60 * 60 * 24 * 7)); // (one week);
+export const REDIS_LEGEND_CACHE_TTL = requireEnv('REDIS_LEGEND_CACHE_TTL', String(60 * 60 * 24 * 7)); // (one week);
+export const REDIS_VECTOR_TILES_CACHE_TTL = requireEnv('REDIS_VECTOR_TILES_CACHE_TTL', String(60 * 60)); // (one hour);
+export const COLLECTION_GEOMETRY_CACHE_TTL = requireEnv('COLLECTION_GEOMETRY_CACHE_TTL', String(60 * 60 * 24)); // (one day);
 export const JWT_GROUP_KEY = requireEnv('JWT_GROUP_KEY', 'https://marapp.org/groups');
 export const JWT_PERMISSION_KEY = requireEnv('JWT_PERMISSION_KEY', 'https://marapp.org/permissions');
 export const S3_ENDPOINT_URL = requireEnv('S3_ENDPOINT_URL', 'https://s3.us-east-1.amazonaws.com');
@@ -46,7 +65,9 @@ export const MONGODB_URI = requireEnv('MONGODB_URI');
 export const REDIS_URI = requireEnv('REDIS_URI');
 export const ELASTICSEARCH_URI = requireEnv('ELASTICSEARCH_URI');
 export const GOOGLE_SERVICE_ACCOUNT = requireEnv('GOOGLE_SERVICE_ACCOUNT');
+export const GOOGLE_EXPORT_BUCKET = requireEnv('GOOGLE_EXPORT_BUCKET', 'marapp-exports'); // EE batch exports destination;
 export const SNS_TOPIC_SUBSCRIPTION_ARN = requireEnv('SNS_TOPIC_SUBSCRIPTION_ARN');
 export const SNS_TOPIC_MANAGER_ARN = requireEnv('SNS_TOPIC_MANAGER_ARN');
 export const SNS_TOPIC_WIPE_DATA_ARN = requireEnv('SNS_TOPIC_WIPE_DATA_ARN');
+export const SNS_TOPIC_METRIC_JOB_ARN = requireEnv('SNS_TOPIC_METRIC_JOB_ARN');
 export const SERVICE_API_KEY = requireEnv('SERVICE_API_KEY');
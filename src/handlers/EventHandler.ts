@@ -1,14 +1,44 @@
-import { Context, Handler, SNSEvent } from 'aws-lambda';
+import { Context, Handler, ScheduledEvent, SNSEvent } from 'aws-lambda';
+import { boolean } from 'boolean';
+import { chunk } from 'lodash';
 import { Model } from 'mongoose';
 import { performance } from 'perf_hooks';
 
+import {
+  METRIC_JOB_BATCH_DELAY,
+  METRIC_JOB_BATCH_SIZE,
+  METRIC_JOB_TASK_TIMEOUT,
+  METRIC_RECOMPUTE_ON_CHANGE,
+} from '../config';
 import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
-import { forEachAsync } from '../helpers/util';
+import { forEachAsync, sleep } from '../helpers/util';
 import { getLogger } from '../logging';
-import { DashboardModel, LayerModel, LocationModel, WidgetModel } from '../models';
+import { eeContextEvent } from '../middlewares/context';
+import {
+  DashboardModel,
+  ExportJobModel,
+  ExportJobStatusEnum,
+  JobModel,
+  JobStatusEnum,
+  JobTaskStatusEnum,
+  LayerModel,
+  LocationModel,
+  WidgetModel,
+} from '../models';
 import { IESPlugin } from '../models/plugins/elasticsearch';
 import { getAllStream, removeByQuery } from '../models/utils';
-import { SNSWipeLayerDataEvent, SNSWipeOrgDataEvent, WipeDataEnum } from '../services/sns';
+import { syncExportJob } from '../services/export-job-service';
+import { resolveExpectedMetrics } from '../services/job-service';
+import { dispatchOperation } from '../services/operation-service';
+import {
+  OperationTypeEnum,
+  SNSComputeMetricEvent,
+  SNSMetricJobEvent,
+  SNSWipeLayerDataEvent,
+  SNSWipeOrgDataEvent,
+  triggerComputeMetricEvent,
+  WipeDataEnum,
+} from '../services/sns';
 import { removeLayerMapTiles, removeLayerMapTilesFromStream } from '../services/storage-service';
 
 import { contextEventHandler } from '.';
@@ -82,3 +112,190 @@ export const wipeDataTaskHandler: Handler = contextEventHandler(async (event: SN
     }
   }
 });
+
+export const metricRecomputeTaskHandler: Handler = contextEventHandler(
+  async (event: ScheduledEvent, context: Context) => {
+    if (!boolean(METRIC_RECOMPUTE_ON_CHANGE)) {
+      return; // no locations are scheduled;
+    }
+    const now = new Date();
+
+    const due = await LocationModel.find({ metricsRecomputeAt: { $lte: now } })
+      .select(['_id'])
+      .lean();
+
+    logger.debug('[metricRecomputeTaskHandler] scheduled metrics recompute for %s location(s)', due.length);
+
+    for (const { _id } of due) {
+      // unset the schedule first, concurrent invocations skip the location;
+      const location = await LocationModel.findOneAndUpdate(
+        { _id, metricsRecomputeAt: { $lte: now } },
+        { $unset: { metricsRecomputeAt: 1 } },
+        { new: true }
+      )
+        .select(['version', 'organization'])
+        .lean();
+      if (!location) {
+        continue;
+      }
+      const message: SNSComputeMetricEvent = {
+        id: location._id,
+        operationType: OperationTypeEnum.CALCULATE,
+        version: location.version,
+        resources: [],
+      };
+      const operationId = await dispatchOperation(
+        {
+          type: message.operationType,
+          location: message.id,
+          organization: location.organization,
+          version: message.version,
+          resources: message.resources,
+          expected: await resolveExpectedMetrics(message.id, message.resources),
+        },
+        () => triggerComputeMetricEvent(message, false)
+      );
+      if (!operationId) {
+        logger.error('[metricRecomputeTaskHandler] failed to publish compute event for: %s', location._id);
+      }
+    }
+  }
+);
+
+export const metricJobTaskHandler: Handler = contextEventHandler(async (event: SNSEvent, context: Context) => {
+  const messageId = event?.Records?.[0]?.Sns?.MessageId;
+  const message = event?.Records?.[0]?.Sns?.Message;
+
+  logger.debug('[metricJobTaskHandler] received SNS event: %s', messageId);
+
+  const { jobId }: SNSMetricJobEvent = JSON.parse(message);
+
+  // only queued jobs are picked up, SNS might deliver the same message more than once;
+  const job = await JobModel.findOneAndUpdate(
+    { _id: jobId, status: JobStatusEnum.QUEUED },
+    { $set: { status: JobStatusEnum.RUNNING, startedAt: new Date() } },
+    { new: true }
+  ).lean();
+  if (!job) {
+    logger.warn('[metricJobTaskHandler] job not found or no longer queued: %s', jobId);
+    return;
+  }
+
+  try {
+    const pending = job.tasks.filter((task) => task.status === JobTaskStatusEnum.PENDING);
+    const batches = chunk(pending, Number(METRIC_JOB_BATCH_SIZE));
+
+    for (const [i, batch] of batches.entries()) {
+      if (i > 0) {
+        await sleep(Number(METRIC_JOB_BATCH_DELAY));
+      }
+      const current = await JobModel.findById(jobId).select(['status']).lean();
+      if (current.status !== JobStatusEnum.RUNNING) {
+        logger.debug('[metricJobTaskHandler] job %s stopped with status: %s', jobId, current.status);
+        return;
+      }
+      await forEachAsync(batch, async (task) => {
+        const expected = await resolveExpectedMetrics(task.location, job.resources);
+        const dispatchedAt = new Date();
+
+        // mark the task dispatched before publishing, the results might arrive first;
+        await JobModel.updateOne(
+          { _id: jobId, 'tasks.location': task.location },
+          {
+            $set: {
+              'tasks.$.status': JobTaskStatusEnum.DISPATCHED,
+              'tasks.$.expected': expected,
+              'tasks.$.dispatchedAt': dispatchedAt,
+              'tasks.$.updatedAt': dispatchedAt,
+            },
+          }
+        );
+        const computeEvent: SNSComputeMetricEvent = {
+          id: task.location,
+          operationType: OperationTypeEnum.CALCULATE,
+          version: task.version,
+          resources: job.resources,
+        };
+        const operationId = await dispatchOperation(
+          {
+            type: computeEvent.operationType,
+            location: task.location,
+            organization: job.organization,
+            version: task.version,
+            resources: job.resources,
+            expected,
+            requestedBy: job.createdBy,
+          },
+          () => triggerComputeMetricEvent(computeEvent, false)
+        );
+        if (operationId) {
+          return JobModel.updateOne(
+            { _id: jobId, 'tasks.location': task.location },
+            { $set: { 'tasks.$.operationId': operationId } }
+          );
+        }
+        return JobModel.updateOne(
+          { _id: jobId, tasks: { $elemMatch: { location: task.location, status: JobTaskStatusEnum.DISPATCHED } } },
+          {
+            $set: {
+              'tasks.$.status': JobTaskStatusEnum.FAILED,
+              'tasks.$.error': 'Could not publish SNS message.',
+              'tasks.$.updatedAt': new Date(),
+            },
+          }
+        );
+      });
+      logger.debug('[metricJobTaskHandler] dispatched batch %s/%s for job: %s', i + 1, batches.length, jobId);
+    }
+
+    // all the tasks failed to dispatch or settled already;
+    await JobModel.completeIfSettled(jobId);
+  } catch (err) {
+    logger.error('[metricJobTaskHandler] failed to dispatch job: %s', jobId);
+    logger.error(err);
+
+    await JobModel.updateOne(
+      { _id: jobId },
+      { $set: { status: JobStatusEnum.FAILED, error: err.message, completedAt: new Date() } }
+    );
+  }
+});
+
+export const metricJobTimeoutTaskHandler: Handler = contextEventHandler(
+  async (event: ScheduledEvent, context: Context) => {
+    const deadline = new Date(Date.now() - Number(METRIC_JOB_TASK_TIMEOUT) * 1000);
+
+    const jobs = await JobModel.find({
+      status: { $in: [JobStatusEnum.RUNNING, JobStatusEnum.CANCELLED] },
+      tasks: { $elemMatch: { status: JobTaskStatusEnum.DISPATCHED, dispatchedAt: { $lte: deadline } } },
+    })
+      .select(['_id'])
+      .lean();
+
+    logger.debug('[metricJobTimeoutTaskHandler] expired dispatched tasks for %s job(s)', jobs.length);
+
+    for (const { _id } of jobs) {
+      await JobModel.failExpiredTasks(_id, deadline);
+      await JobModel.completeIfSettled(_id);
+    }
+  }
+);
+
+export const exportJobTaskHandler: Handler = contextEventHandler(async (event: any, context: Context) => {
+  const running = await ExportJobModel.find({ status: ExportJobStatusEnum.RUNNING }).sort({ startedAt: 1 });
+  if (!running.length) {
+    return;
+  }
+  logger.debug('[exportJobTaskHandler] checking %s running export job(s)', running.length);
+
+  await eeContextEvent();
+
+  for (const job of running) {
+    try {
+      await syncExportJob(job);
+    } catch (err) {
+      logger.error('[exportJobTaskHandler] failed to update export job: %s', job.id);
+      logger.error(err);
+    }
+  }
+});
@@ -23,8 +23,9 @@ import { API_BASE } from '../config';
 import { getLogger } from '../logging';
 import OperationRouter from '../routers/OperationRouter';
 
-import { systemHttpHandler } from '.';
+import { authHttpHandler, systemHttpHandler } from '.';
 
 const logger = getLogger();
 
 export const managementHandler: Handler = systemHttpHandler(OperationRouter.getRouter(API_BASE));
+export const statusHandler: Handler = authHttpHandler(OperationRouter.getStatusRouter(API_BASE));
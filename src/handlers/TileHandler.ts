@@ -24,8 +24,10 @@ import { getLogger } from '../logging';
 import { eeContextHttp } from '../middlewares/context';
 import TileRouter from '../routers/TileRouter';
 
-import { openHttpHandler } from '.';
+import { anonymousHttpHandler, openHttpHandler } from '.';
 
 const logger = getLogger();
 
 export const openHandler: Handler = openHttpHandler(eeContextHttp, TileRouter.getRouter(API_BASE));
+
+export const vectorHandler: Handler = anonymousHttpHandler(TileRouter.getVectorRouter(API_BASE));
@@ -0,0 +1,47 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { isNil, isPlainObject } from 'lodash';
+
+/**
+ * Escape a value for a CSV field (RFC 4180).
+ * Nested objects and arrays are serialized as JSON.
+ * @param value
+ */
+export const escapeCSVValue = (value: any): string => {
+  if (isNil(value)) {
+    return '';
+  }
+  if (value instanceof Date) {
+    value = value.toISOString();
+  } else if (isPlainObject(value) || Array.isArray(value)) {
+    value = JSON.stringify(value);
+  }
+  const str = String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+/**
+ * Format a list of values as a CSV row, including the line terminator.
+ * @param values
+ */
+export const toCSVRow = (values: any[]): string => values.map(escapeCSVValue).join(',') + '\r\n';
@@ -0,0 +1,205 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import Ajv from 'ajv';
+
+/**
+ * JSON Schema (draft-07), covers the keywords used to describe metric and config payloads.
+ * See: https://json-schema.org/draft-07/json-schema-validation.html
+ */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $comment?: string;
+  title?: string;
+  description?: string;
+  default?: any;
+  examples?: any[];
+  definitions?: { [key: string]: JSONSchema };
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: any[];
+  const?: any;
+  // numbers;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // strings;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // arrays;
+  items?: JSONSchema | JSONSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // objects;
+  properties?: { [key: string]: JSONSchema };
+  patternProperties?: { [pattern: string]: JSONSchema };
+  additionalProperties?: boolean | JSONSchema;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  // combinations;
+  allOf?: JSONSchema[];
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  not?: JSONSchema;
+}
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JSONSchemaError {
+  pointer: string; // JSON Pointer to the invalid value;
+  detail: string;
+}
+
+// compiled validators are cached by the serialized schema;
+// remote references & unknown formats are rejected when the schema is compiled;
+const ajv = new Ajv({
+  allErrors: true,
+  jsonPointers: true,
+  errorDataPath: 'property',
+  verbose: true,
+  ownProperties: true,
+});
+
+const unescapePointer = (key: string): string => key.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const typeOf = (value: any): JSONSchemaType => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return <JSONSchemaType>typeof value;
+};
+
+// the errors of the schemas nested under a combination are reported by the combination keyword;
+const isNestedError = (error: Ajv.ErrorObject): boolean => /\/(anyOf|oneOf)\/\d+\/|\/not\//.test(error.schemaPath);
+
+const formatError = (error: Ajv.ErrorObject): string => {
+  const params: any = error.params;
+  switch (error.keyword) {
+    case 'false schema':
+      return 'Value not allowed.';
+    case 'type':
+      return `Expected type ${params.type.split(',').join(' or ')}, got ${typeOf(error.data)}.`;
+    case 'enum':
+      return `Expected one of: ${params.allowedValues.map((e) => JSON.stringify(e)).join(', ')}.`;
+    case 'const':
+      return `Expected constant value: ${JSON.stringify(params.allowedValue)}.`;
+    case 'minimum':
+    case 'exclusiveMinimum':
+      return `Expected a value greater than${params.comparison === '>=' ? ' or equal to' : ''} ${params.limit}.`;
+    case 'maximum':
+    case 'exclusiveMaximum':
+      return `Expected a value less than${params.comparison === '<=' ? ' or equal to' : ''} ${params.limit}.`;
+    case 'multipleOf':
+      return `Expected a multiple of ${params.multipleOf}.`;
+    case 'minLength':
+      return `Expected at least ${params.limit} characters.`;
+    case 'maxLength':
+      return `Expected at most ${params.limit} characters.`;
+    case 'pattern':
+      return `Expected a value matching: ${params.pattern}.`;
+    case 'format':
+      return `Expected a value of format: ${params.format}.`;
+    case 'minItems':
+      return `Expected at least ${params.limit} items.`;
+    case 'maxItems':
+      return `Expected at most ${params.limit} items.`;
+    case 'uniqueItems':
+      return 'Expected unique items.';
+    case 'minProperties':
+      return `Expected at least ${params.limit} properties.`;
+    case 'maxProperties':
+      return `Expected at most ${params.limit} properties.`;
+    case 'required':
+      return `Missing required property: ${params.missingProperty}.`;
+    case 'additionalProperties':
+      return `Unexpected property: ${params.additionalProperty}.`;
+    case 'anyOf':
+      return 'Expected value to match at least one schema from "anyOf".';
+    case 'oneOf':
+      return 'Expected value to match exactly one schema from "oneOf".';
+    case 'not':
+      return 'Expected value not to match the schema from "not".';
+    default:
+      return `Invalid value, ${error.message}.`;
+  }
+};
+
+/**
+ * Validate a value against a JSON Schema.
+ * Returns the list of errors, empty when the value is valid.
+ * @param schema
+ * @param value
+ * @param pointer: JSON Pointer of the value, prefixed to the error pointers
+ */
+export const validateJSONSchema = (
+  schema: JSONSchema | boolean,
+  value: any,
+  pointer: string = ''
+): JSONSchemaError[] => {
+  if (schema === true || schema === undefined) {
+    return [];
+  }
+  let validate: Ajv.ValidateFunction;
+  try {
+    validate = ajv.compile(schema);
+  } catch (err) {
+    return [{ pointer, detail: `Could not compile schema, ${err.message}.` }];
+  }
+  if (validate(value)) {
+    return [];
+  }
+  return validate.errors
+    .filter((error) => !isNestedError(error))
+    .map((error) => ({ pointer: `${pointer}${error.dataPath}`, detail: formatError(error) }));
+};
+
+/**
+ * Check that a JSON Schema is well formed and can be compiled.
+ * Returns the list of errors, empty when the schema is valid.
+ * @param schema
+ * @param pointer
+ */
+export const checkJSONSchema = (schema: any, pointer: string = ''): JSONSchemaError[] => {
+  if (!ajv.validateSchema(schema)) {
+    const pointers = new Set(ajv.errors.map((error) => `${pointer}${error.dataPath}`));
+    return [...pointers].map((at) => {
+      const keyword = unescapePointer(at.split('/').pop());
+      return { pointer: at, detail: keyword ? `Invalid value for keyword: ${keyword}.` : 'Invalid schema.' };
+    });
+  }
+  try {
+    ajv.compile(schema);
+  } catch (err) {
+    return [{ pointer, detail: `Could not compile schema, ${err.message}.` }];
+  }
+  return [];
+};
@@ -19,7 +19,7 @@
 
 import { boolean } from 'boolean';
 import { eachDeep } from 'deepdash/standalone';
-import { get, groupBy, isEmpty, isEqual, isNil, isString, merge, set } from 'lodash';
+import { get, groupBy, isEmpty, isEqual, isNil, isString, merge, partition, pick, set } from 'lodash';
 import makeError from 'make-error';
 import mongoose from 'mongoose';
 import { Connection, ConnectionOptions } from 'mongoose';
@@ -252,10 +252,14 @@ export class MongooseQueryParser {
       return acc;
     }, {});
 
-    const queryWrapper =
-      '$or' in queryCond
-        ? { $and: Object.keys(queryCond).reduce((a, c) => a.concat({ [c]: queryCond[c] }), []) }
-        : queryCond;
+    let queryWrapper = queryCond;
+    if ('$or' in queryCond) {
+      const [wildcardKeys, keys] = partition(Object.keys(queryCond), (key) => key.startsWith('*'));
+      queryWrapper = {
+        ...pick(queryCond, wildcardKeys), // keep wildcard keys top-level, they are merged into populated paths
+        $and: keys.reduce((a, c) => a.concat({ [c]: queryCond[c] }), []),
+      };
+    }
 
     logger.debug(`resolved query: ${JSON.stringify(queryWrapper)}`);
 
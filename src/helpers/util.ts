@@ -17,7 +17,7 @@
   specific language governing permissions and limitations under the License.
 */
 
-import { get } from 'lodash';
+import { get, isEmpty, isPlainObject } from 'lodash';
 import trim from 'trim';
 
 import { ParameterRequiredError } from '../errors';
@@ -79,6 +79,27 @@ export const validateKeys = <T, K extends keyof T>(
 export const forEachAsync = async (records: any[], callback: (i: any) => Promise<any>) =>
   Promise.all(records.map((i) => callback(i)));
 
+/**
+ * Resolve after the specified number of milliseconds.
+ * @param ms
+ */
+export const sleep = async (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Flatten nested objects and arrays into a single level object with dotted paths as keys.
+ * @param obj
+ * @param prefix
+ */
+export const flattenObject = (obj: any, prefix: string = ''): { [path: string]: any } => {
+  if ((!isPlainObject(obj) && !Array.isArray(obj)) || (isEmpty(obj) && prefix)) {
+    return prefix ? { [prefix]: obj } : {};
+  }
+  return Object.keys(obj).reduce(
+    (acc, key) => ({ ...acc, ...flattenObject(obj[key], prefix ? `${prefix}.${key}` : key) }),
+    {}
+  );
+};
+
 export const convertHrtime = (hrtime) => {
   const nanoseconds = hrtime[0] * 1e9 + hrtime[1];
   const milliseconds = nanoseconds / 1e6;
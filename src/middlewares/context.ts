@@ -48,6 +48,7 @@ export interface EESharedContext {
 let sharedContextHttp: SharedContext;
 let eeSharedContextHttp: EESharedContext;
 let sharedContextSNS: SharedContext;
+let eeSharedContextEvent: EESharedContext;
 
 /**
  * Shared HTTP context, available between invocations.
@@ -143,3 +144,24 @@ export const contextEvent = async (event: SNSEvent, context: Context) => {
 
   return { event, context };
 };
+
+/**
+ * EarthEngine event shared context, available between invocations.
+ */
+export const eeContextEvent = async (): Promise<void> => {
+  const start = performance.now();
+
+  if (!eeSharedContextEvent) {
+    logger.debug('[eeContextEvent] shared context');
+
+    // create connection(s);
+    eeSharedContextEvent = {
+      ee: initEarthEngine(),
+    };
+  }
+  // resolve connection(s);
+  await eeSharedContextEvent.ee;
+
+  const end = performance.now();
+  logger.debug(`[eeContextEvent] shared context duration: ${end - start}(ms)`);
+};
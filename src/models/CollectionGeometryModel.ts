@@ -0,0 +1,58 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+
+import { COLLECTION_GEOMETRY_CACHE_TTL } from '../config';
+
+import { schemaOptions } from './middlewares';
+
+export interface CollectionGeometry {
+  id?: any; // key computed from the collection members and their versions;
+  geojson?: object;
+  bbox2d?: number[];
+  areaKm2?: number;
+  centroid?: object;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface CollectionGeometryDocument extends CollectionGeometry, Document {}
+
+const CollectionGeometrySchema: Schema = new Schema(
+  {
+    _id: { type: String, required: true },
+    geojson: { type: Object },
+    bbox2d: { type: [Number], default: undefined },
+    areaKm2: { type: Number },
+    centroid: { type: Object },
+  },
+  schemaOptions
+);
+
+// Expire cached geometries, stale keys are no longer referenced after member updates;
+CollectionGeometrySchema.index({ createdAt: 1 }, { expireAfterSeconds: Number(COLLECTION_GEOMETRY_CACHE_TTL) });
+
+interface ICollectionGeometryModel extends Model<CollectionGeometryDocument> {}
+
+export const CollectionGeometryModel: ICollectionGeometryModel = model<CollectionGeometryDocument>(
+  'CollectionGeometry',
+  CollectionGeometrySchema
+);
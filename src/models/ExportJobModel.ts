@@ -0,0 +1,86 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+import { EXPORT_JOB_TTL } from '../config';
+
+import { schemaOptions } from './middlewares';
+
+export enum ExportJobStatusEnum {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface ExportJob {
+  id?: any;
+  layer: string;
+  location: string;
+  organization: string;
+  assetId: string;
+  scale?: number;
+  crs?: string;
+  format: string;
+  status?: ExportJobStatusEnum;
+  taskId?: string; // EE batch task ID;
+  files?: string[]; // S3 keys of the exported files;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+}
+
+export interface ExportJobDocument extends ExportJob, Document {}
+
+const ExportJobSchema: Schema = new Schema(
+  {
+    _id: { type: String, default: uuidv4 },
+    layer: { type: String, required: true },
+    location: { type: String, required: true },
+    organization: { type: String, required: true },
+    assetId: { type: String, required: true },
+    scale: { type: Number },
+    crs: { type: String },
+    format: { type: String, required: true },
+    status: { type: String, enum: Object.values(ExportJobStatusEnum), default: ExportJobStatusEnum.QUEUED },
+    taskId: { type: String },
+    files: [{ type: String }],
+    error: { type: String },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    createdBy: { type: String },
+  },
+  schemaOptions
+);
+
+// Create compound index for polling the running jobs;
+ExportJobSchema.index({ status: 1, startedAt: 1 });
+
+// Expire export jobs, the exported files expire with the bucket lifecycle policy;
+ExportJobSchema.index({ createdAt: 1 }, { expireAfterSeconds: Number(EXPORT_JOB_TTL) });
+
+interface IExportJobModel extends Model<ExportJobDocument> {}
+
+export const ExportJobModel: IExportJobModel = model<ExportJobDocument>('ExportJob', ExportJobSchema);
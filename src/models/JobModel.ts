@@ -0,0 +1,144 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+import { schemaOptions } from './middlewares';
+
+export enum JobStatusEnum {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+  FAILED = 'failed',
+}
+
+export enum JobTaskStatusEnum {
+  PENDING = 'pending',
+  DISPATCHED = 'dispatched',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface JobTask {
+  location: string;
+  slug?: string;
+  version?: number;
+  status: JobTaskStatusEnum;
+  operationId?: string;
+  expected?: string[]; // metric slugs expected from the workers, resolved when dispatching;
+  dispatchedAt?: Date; // dispatched tasks without all the results fail after a deadline;
+  received?: string[]; // metric slugs received from the workers;
+  rejected?: string[]; // metric slugs rejected by the subscriber;
+  error?: string;
+  updatedAt?: Date;
+}
+
+export interface Job {
+  id?: any;
+  organization: string;
+  filter?: string;
+  resources?: string[];
+  status?: JobStatusEnum;
+  tasks?: JobTask[];
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+}
+
+export interface JobDocument extends Job, Document {}
+
+const JobTaskSchema: Schema = new Schema(
+  {
+    location: { type: String, required: true },
+    slug: { type: String },
+    version: { type: Number },
+    status: { type: String, enum: Object.values(JobTaskStatusEnum), default: JobTaskStatusEnum.PENDING },
+    operationId: { type: String },
+    expected: [{ type: String }],
+    dispatchedAt: { type: Date },
+    received: [{ type: String }],
+    rejected: [{ type: String }],
+    error: { type: String },
+    updatedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const JobSchema: Schema = new Schema(
+  {
+    _id: { type: String, default: uuidv4 },
+    organization: { type: String, required: true },
+    filter: { type: String },
+    resources: [{ type: String }], // metric slugs, all when empty;
+    status: { type: String, enum: Object.values(JobStatusEnum), default: JobStatusEnum.QUEUED },
+    tasks: [JobTaskSchema],
+    error: { type: String },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    createdBy: { type: String },
+  },
+  schemaOptions
+);
+
+// Create compound index for filtering;
+JobSchema.index({ organization: 1, createdAt: -1 });
+
+// Create multikey index for correlating the results;
+JobSchema.index({ status: 1, 'tasks.location': 1 });
+
+// Mark a running job as completed once none of its tasks are pending or dispatched;
+JobSchema.statics.completeIfSettled = async function (jobId: string) {
+  return this.updateOne(
+    {
+      _id: jobId,
+      status: JobStatusEnum.RUNNING,
+      tasks: { $not: { $elemMatch: { status: { $in: [JobTaskStatusEnum.PENDING, JobTaskStatusEnum.DISPATCHED] } } } },
+    },
+    { $set: { status: JobStatusEnum.COMPLETED, completedAt: new Date() } }
+  );
+};
+
+// Mark the dispatched tasks past the deadline as failed, the remaining results are no longer awaited;
+JobSchema.statics.failExpiredTasks = async function (jobId: string, deadline: Date) {
+  return this.updateOne(
+    { _id: jobId },
+    {
+      $set: {
+        'tasks.$[task].status': JobTaskStatusEnum.FAILED,
+        'tasks.$[task].error': 'Timed out waiting for the metric results.',
+        'tasks.$[task].updatedAt': new Date(),
+      },
+    },
+    { arrayFilters: [{ 'task.status': JobTaskStatusEnum.DISPATCHED, 'task.dispatchedAt': { $lte: deadline } }] }
+  );
+};
+
+interface IJobModel extends Model<JobDocument> {
+  completeIfSettled(jobId: string): Promise<any>;
+  failExpiredTasks(jobId: string, deadline: Date): Promise<any>;
+}
+
+export const JobModel: IJobModel = model<JobDocument, IJobModel>('Job', JobSchema);
@@ -29,10 +29,12 @@ import {
   checkRefLinksOnUpdateMw,
   removeLayerResourcesOnDeleteMw,
   removeRefLinksOnDeleteMw,
+  removeSharedRefLinksOnUpdateMw,
+  validateConfigOnUpdateMw,
 } from './middlewares/layers';
 import esPlugin, { IESPlugin } from './plugins/elasticsearch';
 import slugifyPlugin, { ISlugifyPlugin } from './plugins/slugify';
-import { isArrayEmptyValidator, isEmptyValidator, slugValidator } from './validators';
+import { isArrayEmptyValidator, isEmptyValidator, requireOptionalFields, slugValidator } from './validators';
 
 const logger = getLogger('LayerModel');
 
@@ -77,6 +79,7 @@ export interface Layer {
   category: [LayerCategoryEnum];
   config: object;
   published: boolean;
+  publicResource: boolean;
   organization: string;
   // auto-generated;
   createdAt?: Date;
@@ -109,6 +112,7 @@ const LayerSchema: Schema = new Schema(
     },
     config: { type: Object, required: true, validate: isEmptyValidator() },
     published: { type: Boolean, default: false },
+    publicResource: { type: Boolean, default: false, validate: requireOptionalFields(['published']) },
     organization: { type: String, required: true },
     version: { type: Number, default: 0 },
     references: [{ type: Schema.Types.String, ref: 'Layer' }],
@@ -154,6 +158,7 @@ LayerSchema.plugin(esPlugin, {
       name: { type: 'text', analyzer: 'autocomplete_analyzer', search_analyzer: 'autocomplete_search_analyzer' },
       published: { type: 'boolean' },
       organization: { type: 'keyword' },
+      publicResource: { type: 'boolean' },
     },
   },
 });
@@ -169,10 +174,12 @@ LayerSchema.plugin(slugifyPlugin, { uniqueField: 'slug', separator: '-' });
 
 // Middlewares;
 LayerSchema.pre('validate', generateSlugMw('Layer'));
+LayerSchema.pre('validate', validateConfigOnUpdateMw());
 LayerSchema.pre('save', optimisticVersionControlOnUpdateMw('Layer'));
 LayerSchema.pre('save', checkRefLinksOnUpdateMw());
 LayerSchema.pre('save', versionIncOnUpdateMw('Layer'));
 LayerSchema.pre('save', cacheBustingOnUpdateMw());
+LayerSchema.post('save', removeSharedRefLinksOnUpdateMw());
 LayerSchema.post('remove', removeRefLinksOnDeleteMw());
 LayerSchema.post('remove', removeLayerResourcesOnDeleteMw());
 
@@ -28,15 +28,20 @@ import { getLogger } from '../logging';
 import { Metric } from '.';
 import { generateSlugMw, optimisticVersionControlOnUpdateMw, schemaOptions, versionIncOnUpdateMw } from './middlewares';
 import {
+  checkParentRefOnUpdateMw,
   checkRefLinksOnUpdateMw,
   computeCollectionGeoJSONMw,
   computeGeoJSONOnChangeMw,
+  markStaleMetricsOnChangeMw,
   removeRefLinksOnDeleteMw,
   removeRefLinksOnUpdateMw,
+  saveRevisionOnUpdateMw,
+  snapshotRevisionOnUpdateMw,
+  validateGeoJSONOnChangeMw,
 } from './middlewares/locations';
 import esPlugin, { IESPlugin } from './plugins/elasticsearch';
 import slugifyPlugin, { ISlugifyPlugin } from './plugins/slugify';
-import { requireOptionalFields, slugValidator } from './validators';
+import { isoCodeValidator, requireOptionalFields, slugValidator } from './validators';
 
 const logger = getLogger('LocationModel');
 
@@ -60,15 +65,19 @@ export interface Location {
   featured: boolean;
   organization: string;
   publicResource: boolean;
+  dissolve?: boolean;
+  isoCode?: string;
   // computed;
   bbox2d?: number[];
   areaKm2?: number;
   centroid?: object;
+  metricsRecomputeAt?: Date; // scheduled metric recompute;
   // auto-generated;
   createdAt?: Date;
   updatedAt?: Date;
   version?: number;
   // relationships;
+  parent?: string | Location;
   locations?: string[] | Location[];
   metrics?: string[] | Metric[];
   // calculated;
@@ -99,10 +108,14 @@ const LocationSchema: Schema = new Schema(
     featured: { type: Boolean, default: false },
     organization: { type: String, required: true },
     publicResource: { type: Boolean, default: false, validate: requireOptionalFields(['published']) },
+    dissolve: { type: Boolean, default: false }, // union the geometries of collection references;
+    isoCode: { type: String, validate: isoCodeValidator() }, // ISO 3166-1 alpha-2 or ISO 3166-2;
     version: { type: Number, default: 0 },
     bbox2d: { type: [Number] },
     areaKm2: { type: Number },
     centroid: { type: Object },
+    metricsRecomputeAt: { type: Date },
+    parent: { type: Schema.Types.String, ref: 'Location' }, // administrative parent;
     locations: [
       {
         type: Schema.Types.String,
@@ -126,12 +139,18 @@ LocationSchema.index({ 'geojson.features.geometry': '2dsphere' });
 // Create "2dsphere" index for geo-intersect queries on geometries;
 LocationSchema.index({ 'geojson.features.geometry': '2dsphere', published: 1 });
 
+// Create single field index for parent/child lookups;
+LocationSchema.index({ parent: 1 });
+
 // Create "text" index for text search;
 LocationSchema.index({ name: 'text', type: 'text' });
 
 // Create single field index for sorting;
 LocationSchema.index({ name: 1 });
 
+// Create sparse index for the scheduled metrics recompute;
+LocationSchema.index({ metricsRecomputeAt: 1 }, { sparse: true });
+
 // Ensure referenced object id(s) exist;
 LocationSchema.plugin(mongooseIdValidator, { allowDuplicates: false });
 
@@ -181,10 +200,15 @@ LocationSchema.plugin(slugifyPlugin, { uniqueField: 'slug', separator: '-' });
 // Middlewares;
 LocationSchema.pre('validate', generateSlugMw('Location'));
 LocationSchema.pre('save', optimisticVersionControlOnUpdateMw('Location'));
+LocationSchema.pre('save', validateGeoJSONOnChangeMw());
 LocationSchema.pre('save', computeGeoJSONOnChangeMw());
 LocationSchema.pre('save', checkRefLinksOnUpdateMw());
+LocationSchema.pre('save', checkParentRefOnUpdateMw());
+LocationSchema.pre('save', snapshotRevisionOnUpdateMw());
 LocationSchema.pre('save', versionIncOnUpdateMw('Location'));
+LocationSchema.post('save', saveRevisionOnUpdateMw());
 LocationSchema.post('save', removeRefLinksOnUpdateMw());
+LocationSchema.post('save', markStaleMetricsOnChangeMw());
 LocationSchema.post('remove', removeRefLinksOnDeleteMw());
 LocationSchema.post('find', computeCollectionGeoJSONMw());
 LocationSchema.post('findOne', computeCollectionGeoJSONMw());
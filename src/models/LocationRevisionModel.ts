@@ -0,0 +1,70 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+import mongooseIdValidator from 'mongoose-id-validator';
+import { v4 as uuidv4 } from 'uuid';
+
+import { Location } from '.';
+import { schemaOptions } from './middlewares';
+
+export interface LocationRevision {
+  id?: any;
+  version: number;
+  name: string;
+  description?: string;
+  geojson?: object;
+  // computed;
+  bbox2d?: number[];
+  areaKm2?: number;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+  // relationships;
+  location: string | Location;
+}
+
+interface LocationRevisionDocument extends LocationRevision, Document {}
+
+const LocationRevisionSchema: Schema = new Schema(
+  {
+    _id: { type: String, default: uuidv4 },
+    version: { type: Number, required: true },
+    name: { type: String, required: true },
+    description: { type: String },
+    geojson: { type: Object },
+    bbox2d: { type: [Number], default: undefined },
+    areaKm2: { type: Number },
+    location: { type: Schema.Types.String, ref: 'Location', required: true },
+  },
+  schemaOptions
+);
+
+// Ensure referenced object id(s) exist;
+LocationRevisionSchema.plugin(mongooseIdValidator, { allowDuplicates: false });
+
+// Unique compound index, a single snapshot for each location version;
+LocationRevisionSchema.index({ location: 1, version: -1 }, { unique: true });
+
+interface ILocationRevisionModel extends Model<LocationRevisionDocument> {}
+
+export const LocationRevisionModel: ILocationRevisionModel = model<LocationRevisionDocument>(
+  'LocationRevision',
+  LocationRevisionSchema
+);
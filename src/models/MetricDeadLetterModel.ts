@@ -0,0 +1,75 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+import { METRIC_DEAD_LETTER_TTL } from '../config';
+
+import { schemaOptions } from './middlewares';
+
+export enum MetricRejectionEnum {
+  INVALID_MESSAGE = 'invalid-message', // missing required keys;
+  UNKNOWN_DEFINITION = 'unknown-definition', // no definition registered for the slug;
+  SCHEMA_VALIDATION = 'schema-validation', // payload does not match the definition schema;
+  SAVE_ERROR = 'save-error',
+}
+
+export interface MetricDeadLetter {
+  id?: any;
+  slug?: string;
+  location?: string;
+  organization?: string;
+  metric?: object;
+  reason: MetricRejectionEnum;
+  validationErrors?: { pointer: string; detail: string }[];
+  definitionVersion?: number;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface MetricDeadLetterDocument extends MetricDeadLetter, Document {}
+
+const MetricDeadLetterSchema: Schema = new Schema(
+  {
+    _id: { type: String, default: uuidv4 },
+    slug: { type: String },
+    location: { type: String }, // rejected results might reference missing locations;
+    organization: { type: String },
+    metric: { type: Object },
+    reason: { type: String, enum: Object.values(MetricRejectionEnum), required: true },
+    validationErrors: [{ _id: false, pointer: { type: String }, detail: { type: String } }],
+    definitionVersion: { type: Number },
+  },
+  schemaOptions
+);
+
+// Create compound index for filtering;
+MetricDeadLetterSchema.index({ organization: 1, slug: 1, createdAt: -1 });
+
+// Expire rejected results;
+MetricDeadLetterSchema.index({ createdAt: 1 }, { expireAfterSeconds: Number(METRIC_DEAD_LETTER_TTL) });
+
+interface IMetricDeadLetterModel extends Model<MetricDeadLetterDocument> {}
+
+export const MetricDeadLetterModel: IMetricDeadLetterModel = model<MetricDeadLetterDocument>(
+  'MetricDeadLetter',
+  MetricDeadLetterSchema
+);
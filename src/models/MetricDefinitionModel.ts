@@ -0,0 +1,75 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+import { JSONSchema } from '../helpers/json-schema';
+
+import { optimisticVersionControlOnUpdateMw, schemaOptions, versionIncOnUpdateMw } from './middlewares';
+import { jsonSchemaValidator } from './validators';
+
+export interface MetricDefinition {
+  id?: any;
+  slug: string; // slug of the computed metrics;
+  name?: string;
+  description?: string;
+  units?: { [path: string]: string }; // units of the metric fields, by dotted path;
+  jsonSchema: JSONSchema; // JSON Schema of the metric payload;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+}
+
+interface MetricDefinitionDocument extends MetricDefinition, Document {}
+
+const MetricDefinitionSchema: Schema = new Schema(
+  {
+    _id: { type: String, default: uuidv4 },
+    slug: { type: String, required: true, trim: true },
+    name: { type: String },
+    description: { type: String },
+    units: {
+      type: Object,
+      default: {},
+      validate: {
+        validator: (v: object) => Object.values(v || {}).every((unit) => typeof unit === 'string'),
+        message: 'Units need to be strings, keyed by the dotted path of the metric field.',
+      },
+    },
+    jsonSchema: { type: Object, required: true, validate: jsonSchemaValidator() },
+    version: { type: Number, default: 0 },
+  },
+  { ...schemaOptions, minimize: false }
+);
+
+// Unique index, a single definition for each metric slug;
+MetricDefinitionSchema.index({ slug: 1 }, { unique: true });
+
+// Middlewares;
+MetricDefinitionSchema.pre('save', optimisticVersionControlOnUpdateMw('MetricDefinition'));
+MetricDefinitionSchema.pre('save', versionIncOnUpdateMw('MetricDefinition'));
+
+interface IMetricDefinitionModel extends Model<MetricDefinitionDocument> {}
+
+export const MetricDefinitionModel: IMetricDefinitionModel = model<MetricDefinitionDocument>(
+  'MetricDefinition',
+  MetricDefinitionSchema
+);
@@ -26,6 +26,7 @@ import { getLogger } from '../logging';
 import { Location } from '.';
 import { schemaOptions } from './middlewares';
 import {
+  metricLocationVersionMw,
   metricRemoveRefLinksOnDeleteMw,
   metricUpdateRefLinksOnUpdateMw,
   metricVersionIncOnUpdateMw,
@@ -37,6 +38,8 @@ export interface Metric {
   id?: any;
   slug: string;
   metric: object;
+  locationVersion?: number; // location version the metric was computed against;
+  stale?: boolean;
   // auto-generated;
   createdAt?: Date;
   updatedAt?: Date;
@@ -53,6 +56,8 @@ const MetricSchema: Schema = new Schema(
     slug: { type: String, required: true },
     metric: { type: Object, required: true },
     version: { type: Number, required: true, default: 0 },
+    locationVersion: { type: Number },
+    stale: { type: Boolean, default: false }, // the location shape changed since computed;
     location: { type: Schema.Types.String, ref: 'Location', required: true },
   },
   schemaOptions
@@ -69,6 +74,7 @@ MetricSchema.index({ slug: 1, location: 1, version: 1 }, { unique: true });
 
 // Middlewares;
 MetricSchema.pre('save', metricVersionIncOnUpdateMw());
+MetricSchema.pre('save', metricLocationVersionMw());
 MetricSchema.post('save', metricUpdateRefLinksOnUpdateMw());
 MetricSchema.post('remove', metricRemoveRefLinksOnDeleteMw());
 
@@ -0,0 +1,85 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Document, model, Model, Schema } from 'mongoose';
+
+import { OPERATION_TTL } from '../config';
+
+import { schemaOptions } from './middlewares';
+
+export enum OperationStatusEnum {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export interface Operation {
+  id?: any;
+  type: string;
+  location: string;
+  organization?: string;
+  version?: number;
+  resources?: string[];
+  status?: OperationStatusEnum;
+  expected?: string[]; // metric slugs expected from the workers, resolved when dispatching;
+  received?: string[]; // metric slugs received from the workers;
+  rejected?: string[]; // metric slugs rejected by the subscriber;
+  messageId?: string; // SNS message ID, attached once published;
+  lock?: { resource: string; value: string };
+  startedAt?: Date;
+  completedAt?: Date;
+  // auto-generated;
+  createdAt?: Date;
+  updatedAt?: Date;
+  requestedBy?: string;
+}
+
+interface OperationDocument extends Operation, Document {}
+
+const OperationSchema: Schema = new Schema(
+  {
+    _id: { type: String, required: true },
+    type: { type: String, required: true },
+    location: { type: String, required: true },
+    organization: { type: String },
+    version: { type: Number },
+    resources: [{ type: String }], // metric slugs, all when empty;
+    status: { type: String, enum: Object.values(OperationStatusEnum), default: OperationStatusEnum.QUEUED },
+    expected: [{ type: String }],
+    received: [{ type: String }],
+    rejected: [{ type: String }],
+    messageId: { type: String },
+    lock: { _id: false, resource: { type: String }, value: { type: String } },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    requestedBy: { type: String },
+  },
+  schemaOptions
+);
+
+// Create compound index for correlating the results;
+OperationSchema.index({ location: 1, status: 1 });
+
+// Expire operations;
+OperationSchema.index({ createdAt: 1 }, { expireAfterSeconds: Number(OPERATION_TTL) });
+
+interface IOperationModel extends Model<OperationDocument> {}
+
+export const OperationModel: IOperationModel = model<OperationDocument>('Operation', OperationSchema);
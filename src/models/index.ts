@@ -20,7 +20,14 @@
 require('mongoose-geojson-schema'); // required by mongoose;
 
 export * from './LocationModel';
+export * from './LocationRevisionModel';
 export * from './MetricModel';
+export * from './MetricDefinitionModel';
+export * from './MetricDeadLetterModel';
+export * from './JobModel';
+export * from './OperationModel';
+export * from './ExportJobModel';
 export * from './LayerModel';
 export * from './WidgetModel';
 export * from './DashboardModel';
+export * from './CollectionGeometryModel';
@@ -16,7 +16,7 @@ export const checkRefLinksOnUpdateMw = function () {
     const organization: string = this.get('organization');
 
     await Promise.all([
-      checkWorkspaceRefs(this.model('Layer'), layers, organization),
+      checkWorkspaceRefs(this.model('Layer'), layers, organization, true), // allow shared layers;
       checkWorkspaceRefs(this.model('Widget'), widgets, organization),
     ]);
   };
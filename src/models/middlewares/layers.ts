@@ -3,8 +3,11 @@ import { nanoid } from 'nanoid';
 import { URL } from 'url';
 
 import { API_URL } from '../../config';
+import { DocumentError } from '../../errors';
 import { getLogger } from '../../logging';
+import { assertLayerConfig } from '../../services/layer-config-service';
 import { SNSWipeLayerDataEvent, triggerWipeDataEvent, WipeDataEnum } from '../../services/sns';
+import { LayerTypeEnum } from '../LayerModel';
 
 import { checkWorkspaceRefs } from './index';
 
@@ -13,14 +16,47 @@ const logger = getLogger();
 /**
  * Pre-save middleware.
  *
- * Validate layers & widgets IDs from nested references.
+ * Validate layers IDs from nested references, groups cannot be nested or reference themselves.
  */
 export const checkRefLinksOnUpdateMw = function () {
   const fn = async function () {
+    const id: string = this.get('id');
+    const type: LayerTypeEnum = this.get('type');
     const references: string[] = this.get('references');
     const organization: string = this.get('organization');
 
     await checkWorkspaceRefs(this.model('Layer'), references, organization);
+
+    if (references && references.length && this.isModified('references')) {
+      if (references.includes(id)) {
+        throw new DocumentError('Could not save document. A layer cannot reference itself.', 400);
+      }
+      const groups = await this.model('Layer').countDocuments({ _id: { $in: references }, type: LayerTypeEnum.GROUP });
+      if (groups) {
+        throw new DocumentError('Could not save document. Groups cannot be nested.', 400);
+      }
+    }
+    if (type === LayerTypeEnum.GROUP && this.isModified('type')) {
+      const parents = await this.model('Layer').countDocuments({ references: { $in: [id] } });
+      if (parents) {
+        throw new DocumentError('Could not save document. Groups cannot be nested.', 400);
+      }
+    }
+  };
+  return fn;
+};
+
+/**
+ * Pre-validate middleware.
+ *
+ * Validate the config against the schema of the layer provider & type.
+ */
+export const validateConfigOnUpdateMw = function () {
+  const fn = async function () {
+    if (!this.isNew && !['config', 'provider', 'type'].some((path) => this.isModified(path))) {
+      return;
+    }
+    assertLayerConfig(this.get('provider'), this.get('type'), this.get('config'));
   };
   return fn;
 };
@@ -55,6 +91,34 @@ export const removeRefLinksOnDeleteMw = function () {
   return fn;
 };
 
+/**
+ * Post-save middleware.
+ *
+ * Remove references from other workspaces on document unpublish or unshare.
+ */
+export const removeSharedRefLinksOnUpdateMw = function () {
+  const fn = async function () {
+    const published: boolean = this.get('published');
+    const publicResource: boolean = this.get('publicResource');
+
+    if (!published || !publicResource) {
+      const id: string = this.get('id');
+      const filter: any = { layers: { $in: [id] }, organization: { $ne: this.get('organization') } };
+
+      const resWidget = await this.model('Widget').updateMany(filter, { $pull: { layers: { $in: [id] } } });
+      logger.debug('[removeSharedRefLinksOnUpdateMw] removed reference: %s from %s widget(s)', id, resWidget.nModified);
+
+      const resDashboard = await this.model('Dashboard').updateMany(filter, { $pull: { layers: { $in: [id] } } });
+      logger.debug(
+        '[removeSharedRefLinksOnUpdateMw] removed reference: %s from %s dashboard(s)',
+        id,
+        resDashboard.nModified
+      );
+    }
+  };
+  return fn;
+};
+
 /**
  * Post-remove middleware.
  *
@@ -1,26 +1,71 @@
-import { get, isArray, isEmpty } from 'lodash';
+import { boolean } from 'boolean';
+import { createHash } from 'crypto';
+import { get, isArray, isEmpty, pick, sortBy, uniq } from 'lodash';
+import { Model } from 'mongoose';
 
+import { METRIC_RECOMPUTE_DEBOUNCE, METRIC_RECOMPUTE_ON_CHANGE } from '../../config';
+import { DocumentError, ValidationError } from '../../errors';
 import { forEachAsync } from '../../helpers/util';
 import { getLogger } from '../../logging';
 import {
   computeAreaKm2,
   computeShapeBbox,
   computeShapeCentroid,
+  dissolveGeojson,
   mergeGeojson,
   normalizeGeojson,
+  validateGeojson,
 } from '../../services/geospatial';
+import { ErrorObject } from '../../types/response';
+import { CollectionGeometryModel } from '../CollectionGeometryModel';
 import { LocationModel, LocationTypeEnum } from '../LocationModel';
-import { getByIds } from '../utils';
+import { getAncestorIds, getByIds } from '../utils';
 
 import { checkWorkspaceRefs } from './index';
 
 const logger = getLogger();
 
+/**
+ * Resolve the references of a collection, including the references of nested collections.
+ * Returns the referenced locations (excluding collections) with their versions, and all visited IDs.
+ * @param model
+ * @param locationIds
+ */
+const resolveCollectionRefs = async (
+  model: Model<any>,
+  locationIds: string[]
+): Promise<{ members: { id: string; version: number }[]; visited: Set<string> }> => {
+  const members: { id: string; version: number }[] = [];
+  const visited = new Set<string>();
+
+  let ids = uniq(locationIds);
+  while (ids.length) {
+    ids.forEach((id) => visited.add(id));
+
+    // aggregations skip the post-find middlewares;
+    const docs = await model.aggregate([
+      { $match: { _id: { $in: ids } } },
+      { $project: { type: 1, version: 1, locations: 1 } },
+    ]);
+    const nested: string[] = [];
+    docs.forEach((doc) => {
+      if (doc.type === LocationTypeEnum.COLLECTION) {
+        nested.push(...(doc.locations || []));
+      } else {
+        members.push({ id: doc._id, version: doc.version });
+      }
+    });
+    ids = uniq(nested).filter((id) => !visited.has(id));
+  }
+  return { members, visited };
+};
+
 /**
  * Pre-save middleware.
  *
  * Computes bbox, centroid, areaKm2 on GeoJSON change.
  * Version increment on GeoJSON change
+ * Shape changes on existing documents are flagged for the post-save middlewares.
  */
 export const computeGeoJSONOnChangeMw = function () {
   const fn = async function () {
@@ -40,6 +85,49 @@ export const computeGeoJSONOnChangeMw = function () {
       const centroid = computeShapeCentroid(geojson);
 
       this.set({ geojson, bbox2d, areaKm2, centroid });
+
+      this.$locals.shapeChanged = !this.isNew;
+    }
+  };
+  return fn;
+};
+
+/**
+ * Pre-save middleware.
+ *
+ * Validates geometries on GeoJSON change.
+ * Invalid geometries are rejected with an error for each offending feature.
+ */
+export const validateGeoJSONOnChangeMw = function () {
+  const fn = async function () {
+    const type: LocationTypeEnum = this.get('type');
+    const geoJSON: any = this.get('geojson');
+
+    if (type !== LocationTypeEnum.COLLECTION && geoJSON && !isEmpty(geoJSON) && this.isModified('geojson')) {
+      logger.debug('[validateGeoJSONOnChangeMw] shape changes detected, validating geometries');
+
+      const geojson = normalizeGeojson(geoJSON, false);
+      if (!geojson) {
+        const errors: ErrorObject[] = [
+          {
+            code: 400,
+            source: { pointer: '/data/attributes/geojson' },
+            title: 'ValidationError',
+            detail: 'Invalid GeoJSON object.',
+          },
+        ];
+        throw new ValidationError(errors, 400);
+      }
+      const issues = validateGeojson(geojson);
+      if (issues.length) {
+        const errors: ErrorObject[] = issues.map(({ index, detail }) => ({
+          code: 400,
+          source: { pointer: `/data/attributes/geojson/features/${index}/geometry` },
+          title: 'ValidationError',
+          detail: `Invalid geometry for feature ${index}: ${detail}.`,
+        }));
+        throw new ValidationError(errors, 400);
+      }
     }
   };
   return fn;
@@ -49,13 +137,107 @@ export const computeGeoJSONOnChangeMw = function () {
  * Pre-save middleware.
  *
  * Validate collection IDs from nested references.
+ * Collections can reference other collections, circular references are rejected.
  */
 export const checkRefLinksOnUpdateMw = function () {
   const fn = async function () {
+    const id: string = this.get('id');
     const locations: string[] = this.get('locations');
     const organization: string = this.get('organization');
 
     await checkWorkspaceRefs(this.model('Location'), locations, organization, true);
+
+    if (locations && locations.length && this.isModified('locations')) {
+      const { visited } = await resolveCollectionRefs(this.model('Location'), locations);
+      if (visited.has(id)) {
+        throw new DocumentError('Could not save document. Circular references saved on document.', 400);
+      }
+    }
+  };
+  return fn;
+};
+
+/**
+ * Pre-save middleware.
+ *
+ * Validate the parent reference.
+ * Parents need to belong to the same workspace and cannot be collections, circular references are rejected.
+ */
+export const checkParentRefOnUpdateMw = function () {
+  const fn = async function () {
+    const id: string = this.get('id');
+    const parent: string = this.get('parent');
+    const organization: string = this.get('organization');
+
+    if (parent && this.isModified('parent')) {
+      if (this.get('type') === LocationTypeEnum.COLLECTION) {
+        throw new DocumentError('Could not save document. Collections cannot have a parent.', 400);
+      }
+      await checkWorkspaceRefs(this.model('Location'), [parent], organization);
+
+      const stored = await this.model('Location').findOne({ _id: parent }).select(['type']).lean();
+      if (stored && stored.type === LocationTypeEnum.COLLECTION) {
+        throw new DocumentError('Could not save document. Invalid parent saved on document.', 400);
+      }
+      const ancestors = await getAncestorIds(this.model('Location'), parent);
+      if (parent === id || ancestors.includes(id)) {
+        throw new DocumentError('Could not save document. Circular references saved on document.', 400);
+      }
+    }
+  };
+  return fn;
+};
+
+/**
+ * Pre-save middleware.
+ *
+ * Take a snapshot of the stored document before a versioned update of the name, description or shape.
+ * The snapshot is persisted as a revision by the post-save middleware, once the update succeeds.
+ */
+export const snapshotRevisionOnUpdateMw = function () {
+  const fn = async function () {
+    this.$locals.revision = null;
+
+    if (this.isNew || !['geojson', 'name', 'description'].some((path) => this.isModified(path))) {
+      return;
+    }
+    const id: string = this.get('id');
+
+    this.$locals.revision = await this.model('Location')
+      .findOne({ _id: id })
+      .select(['version', 'name', 'description', 'geojson', 'bbox2d', 'areaKm2'])
+      .lean();
+  };
+  return fn;
+};
+
+/**
+ * Post-save middleware.
+ *
+ * Persist the snapshot taken before the update as a revision.
+ */
+export const saveRevisionOnUpdateMw = function () {
+  const fn = async function () {
+    const stored = this.$locals.revision;
+    if (!stored) {
+      return;
+    }
+    this.$locals.revision = null;
+
+    const id: string = this.get('id');
+
+    logger.debug('[saveRevisionOnUpdateMw] saving revision for: %s version: %s', id, stored.version);
+    try {
+      await this.model('LocationRevision').create({
+        ...pick(stored, ['version', 'name', 'description', 'geojson', 'bbox2d', 'areaKm2']),
+        location: id,
+      });
+    } catch (err) {
+      // concurrent updates on the same version, the revision is already saved;
+      if (err.name !== 'MongoError' || err.code !== 11000) {
+        throw err;
+      }
+    }
   };
   return fn;
 };
@@ -67,21 +249,60 @@ export const checkRefLinksOnUpdateMw = function () {
  */
 export const removeRefLinksOnUpdateMw = function () {
   const fn = async function () {
+    const type: LocationTypeEnum = this.get('type');
     const published: boolean = this.get('published');
     const publicResource: boolean = this.get('publicResource');
+    const organization: string = this.get('organization');
 
     if (!published || !publicResource) {
       const id: string = this.get('id');
-      const res = await this.model('Location').updateMany(
-        { locations: { $in: [id] } },
-        { $pull: { locations: { $in: [id] } } }
-      );
+      const filter: any = { locations: { $in: [id] } };
+      if (published && type === LocationTypeEnum.COLLECTION) {
+        filter.organization = { $ne: organization }; // keep nested collections from the same workspace;
+      }
+      const res = await this.model('Location').updateMany(filter, { $pull: { locations: { $in: [id] } } });
       logger.debug('[removeRefLinksOnUpdateMw] removed reference: %s from %s record(s)', id, res.nModified);
     }
   };
   return fn;
 };
 
+/**
+ * Post-save middleware.
+ *
+ * Mark the metrics computed against previous versions as stale on shape change.
+ * Metrics are recomputed when enabled, debounced so repeated edits schedule a single recompute.
+ */
+export const markStaleMetricsOnChangeMw = function () {
+  const fn = async function () {
+    if (!this.$locals.shapeChanged) {
+      return;
+    }
+    this.$locals.shapeChanged = false;
+
+    const id: string = this.get('id');
+
+    // the version is incremented on the stored document;
+    const stored = await this.model('Location').findOne({ _id: id }).select(['version']).lean();
+    if (!stored) {
+      return;
+    }
+    const res = await this.model('Metric').updateMany(
+      { location: id, $or: [{ locationVersion: { $lt: stored.version } }, { locationVersion: { $exists: false } }] },
+      { $set: { stale: true } }
+    );
+    logger.debug('[markStaleMetricsOnChangeMw] marked %s metric(s) as stale for: %s', res.nModified, id);
+
+    if (boolean(METRIC_RECOMPUTE_ON_CHANGE)) {
+      const metricsRecomputeAt = new Date(Date.now() + Number(METRIC_RECOMPUTE_DEBOUNCE) * 1000);
+      await this.model('Location').updateOne({ _id: id }, { $set: { metricsRecomputeAt } });
+
+      logger.debug('[markStaleMetricsOnChangeMw] scheduled metrics recompute for: %s at: %s', id, metricsRecomputeAt);
+    }
+  };
+  return fn;
+};
+
 /**
  * Post-remove middleware.
  *
@@ -98,11 +319,16 @@ export const removeRefLinksOnDeleteMw = function () {
       logger.debug('[removeRefLinksOnDeleteMw] removed docs from parent refs: %s', metrics.join(','));
     }
 
+    await this.model('LocationRevision').deleteMany({ location: id });
+
     const res = await this.model('Location').updateMany(
       { locations: { $in: [id] } },
       { $pull: { locations: { $in: [id] } } }
     );
     logger.debug('[removeRefLinksOnDeleteMw] removed reference: %s from %s record(s)', id, res.nModified);
+
+    const children = await this.model('Location').updateMany({ parent: id }, { $unset: { parent: 1 } });
+    logger.debug('[removeRefLinksOnDeleteMw] removed parent: %s from %s record(s)', id, children.nModified);
   };
   return fn;
 };
@@ -111,6 +337,8 @@ export const removeRefLinksOnDeleteMw = function () {
  * Post-find middleware.
  *
  * Computes bbox, centroid, areaKm2 and GeoJSON from nested references.
+ * Polygons are unioned when the collection is in dissolve mode.
+ * Results are cached by the referenced locations and their versions.
  */
 export const computeCollectionGeoJSONMw = function () {
   const fn = async function (results) {
@@ -122,13 +350,44 @@ export const computeCollectionGeoJSONMw = function () {
       if (locationIds.length) {
         logger.debug('[computeCollectionGeoJSONMw] found location references: %s', locationIds.join(', '));
 
-        const geojsonArray = await getByIds(LocationModel, locationIds, { select: { geojson: 1 } });
-        const geojson = mergeGeojson(<any>geojsonArray.map((e) => e.geojson));
+        const dissolve: boolean = get(result, 'dissolve', false);
+        const { members } = await resolveCollectionRefs(LocationModel, locationIds);
+        if (!members.length) {
+          return;
+        }
+        const cacheKey = createHash('sha1')
+          .update(JSON.stringify([dissolve, sortBy(members, 'id').map((m) => `${m.id}:${m.version}`)]))
+          .digest('hex');
+
+        let computed: any = await CollectionGeometryModel.findById(cacheKey).lean();
+        if (!computed) {
+          logger.debug('[computeCollectionGeoJSONMw] computing collection geometry: %s', cacheKey);
+
+          const geojsonArray = await getByIds(
+            LocationModel,
+            members.map((m) => m.id),
+            { select: { geojson: 1 } }
+          );
+          const merged = mergeGeojson(<any>geojsonArray.map((e) => e.geojson));
+          const geojson = (dissolve && dissolveGeojson(merged, false)) || merged;
 
-        result.geojson = geojson;
-        result.bbox2d = computeShapeBbox(geojson);
-        result.areaKm2 = computeAreaKm2(geojson);
-        result.centroid = computeShapeCentroid(geojson);
+          computed = {
+            _id: cacheKey,
+            geojson,
+            bbox2d: computeShapeBbox(geojson),
+            areaKm2: computeAreaKm2(geojson),
+            centroid: computeShapeCentroid(geojson),
+          };
+          try {
+            await CollectionGeometryModel.create(computed);
+          } catch (err) {
+            logger.warn('[computeCollectionGeoJSONMw] could not cache collection geometry: %s', err.message);
+          }
+        }
+        result.geojson = computed.geojson;
+        result.bbox2d = computed.bbox2d;
+        result.areaKm2 = computed.areaKm2;
+        result.centroid = computed.centroid;
       }
     });
   };
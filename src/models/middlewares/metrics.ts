@@ -1,7 +1,7 @@
-import { boolean } from 'boolean';
+import { isNil } from 'lodash';
 
-import { KEEP_METRIC_VERSIONS } from '../../config';
 import { getLogger } from '../../logging';
+import { getRetentionPolicy, selectExpiredVersions } from '../../services/metric-service';
 
 const logger = getLogger();
 
@@ -24,10 +24,30 @@ export const metricVersionIncOnUpdateMw = function () {
   return fn;
 };
 
+/**
+ * Pre-save middleware.
+ *
+ * Defaults the location version to the current version of the parent document.
+ */
+export const metricLocationVersionMw = function () {
+  const fn = async function () {
+    if (isNil(this.get('locationVersion'))) {
+      const parent: string = this.get('location');
+
+      const res = await this.model('Location').findOne({ _id: parent }).select(['version']).lean();
+      if (res) {
+        this.set({ locationVersion: res['version'] });
+      }
+    }
+  };
+  return fn;
+};
+
 /**
  * Post-save middleware.
  *
  * Update child references on parent document.
+ * Previous versions are removed according to the retention policy of the metric slug.
  */
 export const metricUpdateRefLinksOnUpdateMw = function () {
   const fn = async function () {
@@ -36,14 +56,27 @@ export const metricUpdateRefLinksOnUpdateMw = function () {
     const parent: string = this.get('location');
 
     // find previous versions;
-    const ids = await this.model('Metric')
+    const previous = await this.model('Metric')
       .find({ _id: { $nin: [id] }, location: parent, slug: slug })
-      .distinct('_id');
+      .select(['version', 'createdAt'])
+      .lean();
+    const ids: string[] = previous.map((doc) => doc._id);
+
+    const current = { id, version: this.get('version'), createdAt: this.get('createdAt') };
+    const expired = selectExpiredVersions(
+      [current, ...previous.map((doc) => ({ ...doc, id: doc._id }))],
+      getRetentionPolicy(slug)
+    );
 
-    if (ids.length && !boolean(KEEP_METRIC_VERSIONS)) {
-      logger.debug('[metricUpdateRefLinksOnUpdateMw] removing previous versions: %s for parent: %s', ids.join(','), id);
+    if (expired.length) {
+      const expiredIds = expired.map((doc) => doc.id);
+      logger.debug(
+        '[metricUpdateRefLinksOnUpdateMw] removing expired versions: %s for parent: %s',
+        expiredIds.join(','),
+        id
+      );
 
-      await this.model('Metric').deleteMany({ _id: { $in: ids } });
+      await this.model('Metric').deleteMany({ _id: { $in: expiredIds } });
     }
 
     logger.debug(
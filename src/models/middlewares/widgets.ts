@@ -14,7 +14,7 @@ export const checkRefLinksOnUpdateMw = function () {
     const layers: string[] = this.get('layers');
     const organization: string = this.get('organization');
 
-    await checkWorkspaceRefs(this.model('Layer'), layers, organization);
+    await checkWorkspaceRefs(this.model('Layer'), layers, organization, true); // allow shared layers;
   };
   return fn;
 };
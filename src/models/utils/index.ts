@@ -467,6 +467,10 @@ export const getAllStream = async <T extends Document, L extends keyof T>(
     _id: 1, // default sorting;
   };
 
+  if (!isNil(filterIds)) {
+    queryCond = { ...queryCond, _id: { $in: filterIds } }; // filter by ids;
+  }
+
   let query: Query<T[]> = model
     // @ts-ignore
     .find(queryCond)
@@ -698,6 +702,83 @@ export const getByGeometryIntersection = async <T extends Document, L extends ke
   return docs;
 };
 
+/**
+ * Extend the query filter with geometry intersection conditions.
+ * Conditions are combined (logical AND) with the existing filters.
+ *
+ * Polygons are queried using the MongoDB "strict winding" CRS, which allows
+ * polygons larger than a hemisphere, the exterior ring needs to be counter-clockwise.
+ * @param mongooseOptions
+ * @param geometries
+ * @param geometryPath
+ */
+export const withGeometryIntersection = (
+  mongooseOptions: QueryOptions,
+  geometries: { type: string; coordinates: any }[],
+  geometryPath: string = 'geojson.features.geometry'
+): QueryOptions => {
+  if (!geometries.length) {
+    return mongooseOptions;
+  }
+  const conditions = geometries.map((geometry) => {
+    const $geometry: any = { ...geometry };
+    if (['Polygon', 'MultiPolygon'].includes(geometry.type)) {
+      $geometry.crs = { type: 'name', properties: { name: 'urn:x-mongodb:crs:strictwinding:EPSG:4326' } };
+    }
+    return { [geometryPath]: { $geoIntersects: { $geometry } } };
+  });
+  const filter = { ...mongooseOptions.filter };
+  if (conditions.length === 1 && !(geometryPath in filter)) {
+    Object.assign(filter, conditions[0]);
+  } else {
+    filter.$and = [...(filter.$and || []), ...conditions];
+  }
+  return { ...mongooseOptions, filter };
+};
+
+/**
+ * Return the IDs of all the ancestors of a document, nearest first.
+ * Ancestors are resolved following the parent references, circular references are visited only once.
+ * @param model
+ * @param id
+ * @param parentPath
+ * @param raiseError
+ */
+export const getAncestorIds = async <T extends Document>(
+  model: Model<T>,
+  id: string,
+  parentPath: string = 'parent',
+  raiseError: boolean = true
+): Promise<string[]> => {
+  let ancestors: { _id: string; depth: number }[] = [];
+  try {
+    const [doc] = await model.aggregate([
+      { $match: { _id: id } },
+      {
+        $graphLookup: {
+          from: model.collection.name,
+          startWith: `$${parentPath}`,
+          connectFromField: parentPath,
+          connectToField: '_id',
+          as: 'ancestors',
+          depthField: 'depth',
+        },
+      },
+      { $project: { 'ancestors._id': 1, 'ancestors.depth': 1 } },
+    ]);
+    ancestors = get(doc, 'ancestors', []);
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      if (err instanceof ExposedError) {
+        throw err;
+      }
+      throw new DocumentError('Could not retrieve ancestors.', 500);
+    }
+  }
+  return orderBy(ancestors, ['depth'], ['asc']).map((ancestor) => ancestor._id);
+};
+
 /**
  * Return all the distinct values for the given pathName.
  * @param model
@@ -20,11 +20,16 @@
 import { get, isEmpty } from 'lodash';
 import { Model } from 'mongoose';
 
+import { COUNTRY_LIST } from '../../data/countries';
+import { checkJSONSchema } from '../../helpers/json-schema';
 import { getDistinctValues } from '../utils';
 
 // regular expression used for basic parsing of the slug.
 const slugRegexp = new RegExp('^[a-z0-9](-?[a-z0-9])*$');
 
+// regular expression used for parsing ISO 3166-1 alpha-2 & ISO 3166-2 subdivision codes.
+const isoCodeRegexp = new RegExp('^([A-Z]{2})(-[A-Z0-9]{1,3})?$');
+
 export const slugValidator = () => {
   return {
     validator: (v) => {
@@ -34,6 +39,28 @@ export const slugValidator = () => {
   };
 };
 
+export const isoCodeValidator = () => {
+  return {
+    validator: (v: string) => {
+      const match = v.match(isoCodeRegexp);
+      return !!match && COUNTRY_LIST.some((country) => country.value === match[1]);
+    },
+    message: 'Invalid ISO 3166 code, expected a country (e.g. US) or subdivision (e.g. US-CA) code.',
+  };
+};
+
+export const jsonSchemaValidator = () => {
+  return {
+    validator: (v: any) => {
+      return !checkJSONSchema(v).length;
+    },
+    message: (props) => {
+      const details = checkJSONSchema(props.value).map((e) => `${e.pointer || '/'}: ${e.detail}`);
+      return `Invalid JSON Schema. ${details.join(' ')}`;
+    },
+  };
+};
+
 export const isEmptyValidator = () => {
   return {
     validator: function (v: any) {
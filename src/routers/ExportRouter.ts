@@ -22,16 +22,28 @@ import asyncHandler from 'express-async-handler';
 import { body, param, query } from 'express-validator';
 import { get, isEmpty } from 'lodash';
 import urljoin from 'url-join';
+import { v4 as uuidv4 } from 'uuid';
 
-import { DEFAULT_CONTENT_TYPE } from '../config';
+import { DEFAULT_CONTENT_TYPE, REDIS_STATS_CACHE_TTL } from '../config';
 import { ParameterRequiredError, RecordNotFound, UnsupportedOperationType } from '../errors';
 import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
 import { getLogger } from '../logging';
 import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
-import { LayerModel, LocationModel } from '../models';
-import { getById } from '../models/utils';
+import { ExportJob, ExportJobModel, ExportJobStatusEnum, LayerModel, LocationModel } from '../models';
+import { getById, save } from '../models/utils';
+import { createSerializer as createExportJobSerializer } from '../serializers/ExportJobSerializer';
 import { createSerializer as createExportSerializer } from '../serializers/ExportSerializer';
-import { exportImageToDownloadURL, exportImageToThumbnailURL, ExportType } from '../services/earthengine';
+import { createSerializer as createZonalStatsSerializer } from '../serializers/ZonalStatsSerializer';
+import {
+  ExportFileFormat,
+  exportImageToDownloadURL,
+  exportImageToThumbnailURL,
+  ExportType,
+  ReducerType,
+  startImageExport,
+} from '../services/earthengine';
+import { getExportFileNamePrefix, getExportJobDownloadURLs } from '../services/export-job-service';
+import { parseStatsOptions, ZonalStatsService } from '../services/zonal-stats-service';
 
 import { validate } from '.';
 
@@ -99,6 +111,141 @@ const getRouter = (basePath: string = '/', routePath: string = '/export') => {
     })
   );
 
+  router.get(
+    `${path}/stats/:layerId/:locationId/`,
+    validate([
+      param('layerId').isString().trim().notEmpty(),
+      param('locationId').isString().trim().notEmpty(),
+      query('reducers')
+        .optional()
+        .isString()
+        .trim()
+        .custom((value: string) => value.split(',').every((e) => Object.values(ReducerType).includes(<any>e.trim()))),
+      query('percentiles')
+        .optional()
+        .isString()
+        .trim()
+        .custom((value: string) => value.split(',').every((e) => e.trim() !== '' && +e >= 0 && +e <= 100)),
+      query('scale').optional().isFloat({ gt: 0 }),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readExportsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const layerId = req.params.layerId;
+      const locationId = req.params.locationId;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const layer = await getById(LayerModel, layerId, queryOptions, ['slug']);
+      if (!layer) {
+        throw new RecordNotFound('Could not retrieve layer.', 404);
+      }
+      const location = await getById(LocationModel, locationId, queryOptions, ['slug']);
+      if (!location) {
+        throw new RecordNotFound('Could not retrieve location.', 404);
+      }
+
+      const statsService = new ZonalStatsService(req.app.locals.redisClient, Number(REDIS_STATS_CACHE_TTL));
+      const data = await statsService.compute(layer, location, parseStatsOptions(req.query));
+
+      const code = 200;
+      const response = createZonalStatsSerializer().serialize(data);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/jobs`,
+    validate([
+      body('layerId').isString().trim().notEmpty(),
+      body('locationId').isString().trim().notEmpty(),
+      body('format').optional().isIn(Object.values(ExportFileFormat)),
+      body('scale').optional().isFloat({ gt: 0 }),
+      body('crs')
+        .optional()
+        .isString()
+        .trim()
+        .matches(/^[A-Z]+:\d+$/),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readExportsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const { layerId, locationId, format = ExportFileFormat.GEOTIFF, scale, crs } = req.body;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const layer = await getById(LayerModel, layerId, queryOptions, ['slug']);
+      if (!layer) {
+        throw new RecordNotFound('Could not retrieve layer.', 404);
+      }
+      const location = await getById(LocationModel, locationId, queryOptions, ['slug']);
+      if (!location) {
+        throw new RecordNotFound('Could not retrieve location.', 404);
+      }
+      const assetId = get(layer.config, 'source.assetId');
+      if (!assetId) {
+        throw new ParameterRequiredError('Required config property "source.assetId" missing', 400);
+      }
+
+      const id = uuidv4();
+      const options = { format, scale: scale && Number(scale), crs };
+      const taskId = await startImageExport(assetId, location.geojson, getExportFileNamePrefix(id), options);
+
+      const job: ExportJob = {
+        id,
+        layer: layer.id,
+        location: location.id,
+        organization: layer.organization,
+        assetId,
+        ...options,
+        status: ExportJobStatusEnum.RUNNING,
+        taskId,
+        startedAt: new Date(),
+        createdBy: req.identity.sub,
+      };
+      const doc = await save(ExportJobModel, new ExportJobModel(job));
+
+      const code = 202;
+      const response = createExportJobSerializer().serialize({ ...doc.toObject(), $downloadURLs: [] });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/jobs/:id`,
+    validate([param('id').isString().trim().notEmpty(), query('group').optional().isString().trim()]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readExportsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(ExportJobModel, id, queryOptions);
+      if (!doc) {
+        throw new RecordNotFound('Could not retrieve document.', 404);
+      }
+
+      const code = 200;
+      const response = createExportJobSerializer().serialize({
+        ...doc.toObject(),
+        $downloadURLs: await getExportJobDownloadURLs(doc),
+      });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
   return router;
 };
 
@@ -17,29 +17,108 @@
   specific language governing permissions and limitations under the License.
 */
 
+import { boolean } from 'boolean';
 import { Response, Router } from 'express';
 import asyncHandler from 'express-async-handler';
 import { body, param, query } from 'express-validator';
-import { merge } from 'lodash';
+import { cloneDeep, get, isArray, merge, pick, set } from 'lodash';
+import { URL } from 'url';
 import urljoin from 'url-join';
+import { v4 as uuidv4 } from 'uuid';
 
-import { DEFAULT_CONTENT_TYPE } from '../config';
-import { RecordNotFound } from '../errors';
+import { API_URL, DEFAULT_CONTENT_TYPE, REDIS_LEGEND_CACHE_TTL } from '../config';
+import { InvalidParameterError, RecordNotFound, UnauthorizedError } from '../errors';
 import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
 import { PaginationHelper } from '../helpers/paginator';
 import { getLogger } from '../logging';
 import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
-import { LayerModel } from '../models';
-import { getAll, getById, remove, save, update } from '../models/utils';
+import { Layer, LayerModel, LayerTypeEnum } from '../models';
+import { getAll, getById, getByIds, remove, removeById, save, update } from '../models/utils';
 import { createSerializer } from '../serializers/LayerSerializer';
+import { createSerializer as createLegendSerializer } from '../serializers/LegendSerializer';
 import { createSerializer as createSlugSerializer } from '../serializers/SlugSerializer';
 import { createSerializer as createStatusSerializer } from '../serializers/StatusSerializer';
+import { assertLayerConfig } from '../services/layer-config-service';
+import { applyReferencesOperation, ReferencesOperationEnum } from '../services/layer-group-service';
+import { LegendService } from '../services/legend-service';
 import { ResponseMeta } from '../types/response';
 
 import { queryParamGroup, validate } from '.';
 
 const logger = getLogger();
 
+const CLONE_FIELDS = ['name', 'description', 'primary', 'type', 'provider', 'category', 'config', 'published'];
+
+/**
+ * Point the tiles URLs served by the API at the cloned layer.
+ * @param config
+ * @param source
+ * @param id
+ */
+const rewriteTilesURLs = (config: object, source: Layer, id: string): object => {
+  const URLs: string[] = get(config, 'source.tiles');
+  if (!URLs || !isArray(URLs)) {
+    return config;
+  }
+  const newURLs = URLs.map((rawURL: string) => {
+    const url = new URL(rawURL);
+    if (!API_URL.startsWith(url.origin)) {
+      return rawURL;
+    }
+    url.pathname = url.pathname
+      .split('/')
+      .map((part: string) => ([source.id, source.slug].includes(part) ? id : part))
+      .join('/');
+    return decodeURI(url.toString());
+  });
+  return set(config, 'source.tiles', newURLs);
+};
+
+/**
+ * Copy a layer into the target workspace, under a fresh ID & slug.
+ * @param source
+ * @param organization
+ * @param references
+ */
+const copyLayer = async (source: Layer, organization: string, references: string[] = []): Promise<string> => {
+  const id = uuidv4();
+  const slug = await LayerModel.getUniqueSlug(source.slug, { organization });
+  const config = rewriteTilesURLs(cloneDeep(source.config), source, id);
+
+  const data: any = { ...pick(source, CLONE_FIELDS), id, slug, config, organization, references };
+  await save(LayerModel, data);
+
+  return id;
+};
+
+/**
+ * Deep-copy a layer, including the layers from nested references, into the target workspace.
+ * References from other workspaces are only copied when shared and published.
+ * @param source
+ * @param organization
+ * @param groups: workspaces of the caller;
+ */
+const cloneLayer = async (source: Layer, organization: string, groups: string[]): Promise<string> => {
+  const refIds = <string[]>(source.references || []);
+  const filter = { $or: [{ organization: { $in: groups } }, { publicResource: true, published: true }] };
+  const refs: Layer[] = refIds.length ? await getByIds(LayerModel, refIds, { filter }) : [];
+
+  const clonedIds: string[] = [];
+  try {
+    for (const refId of refIds) {
+      const ref = refs.find((r) => r.id === refId);
+      if (ref) {
+        clonedIds.push(await copyLayer(ref, organization));
+      }
+    }
+    return await copyLayer(source, organization, clonedIds);
+  } catch (err) {
+    logger.warn('[cloneLayer] could not clone layer %s, removing cloned references: %s', source.id, clonedIds);
+    await Promise.all(clonedIds.map((id) => removeById(LayerModel, id, [], false)));
+    throw err;
+  }
+};
+
 const getRouter = (basePath: string = '/', routePath: string = '/layers') => {
   const router: Router = Router();
   const path = urljoin(basePath, routePath);
@@ -62,6 +141,7 @@ const getRouter = (basePath: string = '/', routePath: string = '/layers') => {
       query('page[size]').optional().isInt({ min: 0 }),
       query('page[cursor]').optional().isString().trim(),
       query('group').optional().isString().trim(),
+      query('public').optional().isBoolean(),
     ]),
     guard.enforcePrimaryGroup({ multiple: true }),
     AuthzGuards.readLayersGuard,
@@ -69,7 +149,11 @@ const getRouter = (basePath: string = '/', routePath: string = '/layers') => {
       const search = <string>req.query.search;
       const include = queryParamGroup(<string>req.query.include);
 
-      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      let query: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
+      if (boolean(req.query.public)) {
+        query = [query.concat([{ key: 'publicResource', op: '==', value: true }])] as MongooseQueryFilter[];
+      }
+      const predefined = queryFilters.concat(query);
       const queryOptions = parser.parse(req.query, { predefined }, ['search']);
 
       const searchResult = await LayerModel.esSearchOnlyIds(search, { organization: req.groups, published: true });
@@ -145,6 +229,36 @@ const getRouter = (basePath: string = '/', routePath: string = '/layers') => {
     })
   );
 
+  router.get(
+    `${path}/:id/legend`,
+    validate([param('id').isString(), query('group').optional().isString().trim()]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readLayersGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(LayerModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const legendService = new LegendService(req.app.locals.redisClient, Number(REDIS_LEGEND_CACHE_TTL));
+      const legend = await legendService.getLegend(doc);
+      if (!legend) {
+        throw new RecordNotFound('Could not derive a legend from the layer config.', 404);
+      }
+
+      const code = 200;
+      const response = createLegendSerializer().serialize(legend);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
   return router;
 };
 
@@ -282,6 +396,122 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
     })
   );
 
+  router.post(
+    `${path}/validate`,
+    validate([
+      body('type').isString().trim().notEmpty(),
+      body('provider').isString().trim().notEmpty(),
+      body('config').exists(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ serviceAccounts: true }),
+    AuthzGuards.writeLayersGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const { type, provider, config } = req.body;
+
+      assertLayerConfig(provider, type, config); // dry-run, nothing is saved;
+
+      const code = 200;
+      const response = createStatusSerializer().serialize({ success: true });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/:id/clone`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      query('targetGroup').optional().isString().trim().notEmpty(),
+      query('include').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true, serviceAccounts: true }),
+    AuthzGuards.writeLayersGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const include = queryParamGroup(<string>req.query.include);
+
+      const targetGroup = <string>req.query.targetGroup || req.groups[0];
+      if (!req.groups.includes(targetGroup)) {
+        throw new UnauthorizedError('Permission denied. Invalid target group specified.', 403);
+      }
+
+      // shared layers from other workspaces can be cloned;
+      const query: MongooseQueryFilter[] = [
+        { key: 'organization', op: 'in', value: req.groups },
+        { key: 'publicResource', op: '==', value: true },
+      ];
+      const predefined = [query] as MongooseQueryFilter[];
+      const queryOptions = parser.parse(null, { predefined });
+
+      const source = await getById(LayerModel, id, queryOptions, ['slug']);
+      if (!source || !(req.groups.includes(source.organization) || source.published)) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      const clonedId = await cloneLayer(source, targetGroup, req.groups);
+
+      const queryOptionsGet = parser.parse(req.query, {
+        predefined: [{ key: 'organization', op: '==', value: targetGroup }],
+      });
+      const doc = await getById(LayerModel, clonedId, queryOptionsGet);
+
+      const code = 200;
+      const response = createSerializer(include).serialize(doc);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/:id/references`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      body('operation').isIn(Object.values(ReferencesOperationEnum)),
+      body('references').isArray({ min: 1 }),
+      body('references.*').isString().trim().notEmpty(),
+      body('position').optional().isInt({ min: 0 }).toInt(),
+      body('version').optional().isNumeric(),
+      query('include').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ serviceAccounts: true }),
+    AuthzGuards.writeLayersGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const { operation, references, position } = req.body;
+
+      const include = queryParamGroup(<string>req.query.include);
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(LayerModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      if (doc.type !== LayerTypeEnum.GROUP) {
+        throw new InvalidParameterError('References can only be managed on group layers.', 400);
+      }
+      const current = <string[]>(doc.references || []);
+      const data: any = pick(req.body, ['version']); // optimistic version control;
+      data.references = applyReferencesOperation(current, operation, references, position);
+
+      const queryOptionsGet = parser.parse(req.query, { predefined });
+      const updated = await update(LayerModel, doc, data, queryOptionsGet);
+
+      const code = 200;
+      const response = createSerializer(include).serialize(updated);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
   router.post(
     path,
     validate([
@@ -295,6 +525,7 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       body('category.*').isString().trim().notEmpty(),
       body('config').exists(),
       body('published').optional().isBoolean(),
+      body('publicResource').optional().isBoolean(),
       body('organization').optional().isString().trim(),
       body('references').optional().isArray(),
       body('references.*').optional().isString().trim().notEmpty(),
@@ -334,6 +565,7 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       body('category.*').optional().isString().trim().notEmpty(),
       body('config').optional().exists(),
       body('published').optional().isBoolean(),
+      body('publicResource').optional().isBoolean(),
       body('organization').optional().isString().trim(),
       body('references').optional({ nullable: true }).isArray(),
       body('references.*').optional().isString().trim().notEmpty(),
@@ -21,26 +21,186 @@ import { boolean } from 'boolean';
 import { Response, Router } from 'express';
 import asyncHandler from 'express-async-handler';
 import { body, param, query } from 'express-validator';
-import { merge } from 'lodash';
+import { merge, orderBy, pick, sortBy } from 'lodash';
+import { pipeline } from 'stream';
 import urljoin from 'url-join';
+import { promisify } from 'util';
 
-import { API_BASE, DEFAULT_CONTENT_TYPE } from '../config';
-import { RecordNotFound } from '../errors';
+import { API_BASE, DEFAULT_CONTENT_TYPE, REDIS_GEOMETRY_CACHE_TTL } from '../config';
+import { RecordNotFound, ValidationError } from '../errors';
 import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
 import { PaginationHelper } from '../helpers/paginator';
 import { getLogger } from '../logging';
 import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
-import { LocationModel, LocationTypeEnum } from '../models';
-import { getAll, getByGeometryIntersection, getById, getByIds, remove, save, update } from '../models/utils';
+import { LocationModel, LocationRevisionModel, LocationTypeEnum } from '../models';
+import {
+  getAll,
+  getAllStream,
+  getAncestorIds,
+  getByGeometryIntersection,
+  getById,
+  getByIds,
+  remove,
+  save,
+  update,
+  withGeometryIntersection,
+} from '../models/utils';
+import { createSerializer as createImportSerializer } from '../serializers/ImportSerializer';
+import { createSerializer as createRevisionSerializer } from '../serializers/LocationRevisionSerializer';
 import { createSerializer } from '../serializers/LocationSerializer';
 import { createSerializer as createSlugSerializer } from '../serializers/SlugSerializer';
 import { createSerializer as createStatusSerializer } from '../serializers/StatusSerializer';
-import { ResponseMeta } from '../types/response';
-
-import { queryParamGroup, validate } from '.';
+import {
+  createLocationExportTransform,
+  ExportFormatEnum,
+  EXPORT_CONTENT_TYPES,
+  LOCATION_EXPORT_FORMATS,
+} from '../services/export-service';
+import {
+  LocationGeometryService,
+  parseGeometryOptions,
+  parseSpatialFilters,
+  repairLocationGeojson,
+} from '../services/geometry-service';
+import {
+  computeAreaKm2,
+  computeIntersectionAreaKm2,
+  computePointOnSurface,
+  GeometryRepair,
+  normalizeGeojson,
+} from '../services/geospatial';
+import { importLocations, ImportStatusEnum } from '../services/import-service';
+import { diffLocationSnapshots, LocationSnapshot } from '../services/revision-service';
+import { ErrorObject, ResponseMeta } from '../types/response';
+
+import { queryParamGroup, spatialFilterValidations, validate } from '.';
 
 const logger = getLogger();
 
+const pipelineAsync = promisify(pipeline);
+
+const IMPORT_DEFAULT_FIELDS = ['type', 'published', 'publicResource', 'featured'];
+
+const childrenValidations = [
+  param('id').isString().trim().notEmpty(),
+  query('filter').optional().isString().trim(),
+  query('include').optional().isString().trim(),
+  query('select').optional().isString().trim(),
+  query('sort').optional().isString().trim(),
+  query('page[number]').optional().isInt({ min: 0 }),
+  query('page[size]').optional().isInt({ min: 0 }),
+  query('page[cursor]').optional().isString().trim(),
+  query('group').optional().isString().trim(),
+  query('simplify[tolerance]').optional().isFloat({ min: 0 }),
+  query('simplify[vertices]').optional().isInt({ min: 4 }),
+  query('precision').optional().isInt({ min: 0, max: 15 }),
+];
+
+const ancestorsValidations = [
+  param('id').isString().trim().notEmpty(),
+  query('include').optional().isString().trim(),
+  query('select').optional().isString().trim(),
+  query('group').optional().isString().trim(),
+  query('simplify[tolerance]').optional().isFloat({ min: 0 }),
+  query('simplify[vertices]').optional().isInt({ min: 4 }),
+  query('precision').optional().isInt({ min: 0, max: 15 }),
+];
+
+/**
+ * Retrieve the (paginated) children of a location.
+ * @param queryFilters: filters applied to the location and its children
+ */
+const getChildrenHandler = (queryFilters: MongooseQueryFilter[]) => {
+  const parser = new MongooseQueryParser();
+
+  return asyncHandler(async (req: AuthzRequest, res: Response) => {
+    const id = req.params.id;
+    const include = queryParamGroup(<string>req.query.include);
+
+    const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+    const queryOptions = parser.parse(null, { predefined });
+
+    const doc = await getById(LocationModel, id, queryOptions, ['slug']);
+    if (!doc) {
+      throw new RecordNotFound(`Could not retrieve document.`, 404);
+    }
+
+    const predefined2 = predefined.concat([{ key: 'parent', op: '==', value: doc.id }]);
+    const queryOptions2 = parser.parse(req.query, { predefined: predefined2 }, ['search']);
+
+    const { docs, total, cursor } = await getAll(LocationModel, queryOptions2);
+
+    const geometryService = new LocationGeometryService(req.app.locals.redisClient, Number(REDIS_GEOMETRY_CACHE_TTL));
+    await geometryService.transformAll(docs, parseGeometryOptions(req.query));
+
+    const paginator = new PaginationHelper({
+      sizeTotal: total,
+      pageSize: queryOptions2.limit,
+      currentPage: queryOptions2.skip,
+      currentCursor: queryOptions2.cursor.encoded,
+      nextCursor: cursor.next,
+      previousCursor: cursor.previous,
+    });
+    const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+    const meta: ResponseMeta = {
+      results: total,
+      pagination: {
+        total: paginator.getPageCount(),
+        size: queryOptions2.limit,
+      },
+    };
+    if (queryOptions2.cursor.decoded) {
+      meta.pagination = merge(meta.pagination, { nextCursor: cursor.next, previousCursor: cursor.previous });
+    } else {
+      meta.pagination = merge(meta.pagination, { page: queryOptions2.skip });
+    }
+
+    const code = 200;
+    const response = createSerializer(include, paginationLinks, meta).serialize(docs);
+
+    res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+    res.status(code).send(response);
+  });
+};
+
+/**
+ * Retrieve the ancestors of a location, nearest first.
+ * @param queryFilters: filters applied to the location and its ancestors
+ */
+const getAncestorsHandler = (queryFilters: MongooseQueryFilter[]) => {
+  const parser = new MongooseQueryParser();
+
+  return asyncHandler(async (req: AuthzRequest, res: Response) => {
+    const id = req.params.id;
+    const include = queryParamGroup(<string>req.query.include);
+
+    const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+    const queryOptions = parser.parse(null, { predefined });
+
+    const doc = await getById(LocationModel, id, queryOptions, ['slug']);
+    if (!doc) {
+      throw new RecordNotFound(`Could not retrieve document.`, 404);
+    }
+
+    const ancestorIds = await getAncestorIds(LocationModel, doc.id);
+    const ancestors = await getByIds(LocationModel, ancestorIds, parser.parse(req.query, { predefined }));
+
+    const docs = sortBy(ancestors, (ancestor) => ancestorIds.indexOf(ancestor.id)); // nearest first;
+
+    const geometryService = new LocationGeometryService(req.app.locals.redisClient, Number(REDIS_GEOMETRY_CACHE_TTL));
+    await geometryService.transformAll(docs, parseGeometryOptions(req.query));
+
+    const meta = { results: docs.length };
+
+    const code = 200;
+    const response = createSerializer(include, {}, meta).serialize(docs);
+
+    res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+    res.status(code).send(response);
+  });
+};
+
 const getRouter = (basePath: string = API_BASE, routePath: string = '/locations') => {
   const router: Router = Router();
   const path = urljoin(basePath, routePath);
@@ -61,6 +221,10 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
       query('page[cursor]').optional().isString().trim(),
       query('group').optional().isString().trim(),
       query('public').optional().isBoolean(),
+      ...spatialFilterValidations,
+      query('simplify[tolerance]').optional().isFloat({ min: 0 }),
+      query('simplify[vertices]').optional().isInt({ min: 4 }),
+      query('precision').optional().isInt({ min: 0, max: 15 }),
     ]),
     guard.enforcePrimaryGroup({ multiple: true }),
     AuthzGuards.readLocationsGuard,
@@ -73,13 +237,19 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
         query = [query.concat([{ key: 'publicResource', op: '==', value: true }])] as MongooseQueryFilter[];
       }
       const predefined = queryFilters.concat(query);
-      const queryOptions = parser.parse(req.query, { predefined }, ['search']);
+      const queryOptions = withGeometryIntersection(
+        parser.parse(req.query, { predefined }, ['search']),
+        parseSpatialFilters(req.query)
+      );
 
       const searchResult = await LocationModel.esSearchOnlyIds(search, { organization: req.groups, published: true });
       const searchIds = search ? Object.keys(searchResult) : null;
 
       const { docs, total, cursor, aggs } = await getAll(LocationModel, queryOptions, searchIds, ['type']);
 
+      const geometryService = new LocationGeometryService(req.app.locals.redisClient, Number(REDIS_GEOMETRY_CACHE_TTL));
+      await geometryService.transformAll(docs, parseGeometryOptions(req.query));
+
       const paginator = new PaginationHelper({
         sizeTotal: total,
         pageSize: queryOptions.limit,
@@ -125,6 +295,9 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
       query('select').optional().isString().trim(),
       query('sort').optional().isString().trim(),
       query('group').optional().isString().trim(),
+      query('simplify[tolerance]').optional().isFloat({ min: 0 }),
+      query('simplify[vertices]').optional().isInt({ min: 4 }),
+      query('precision').optional().isInt({ min: 0, max: 15 }),
     ]),
     guard.enforcePrimaryGroup({ multiple: true }),
     AuthzGuards.readLocationsGuard,
@@ -140,6 +313,9 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
         throw new RecordNotFound(`Could not retrieve document.`, 404);
       }
 
+      const geometryOptions = parseGeometryOptions(req.query);
+      const geometryService = new LocationGeometryService(req.app.locals.redisClient, Number(REDIS_GEOMETRY_CACHE_TTL));
+
       if (include.includes('intersections')) {
         const queryOptions = parser.parse(null, { predefined });
 
@@ -150,9 +326,10 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
           const locations = await getByIds(LocationModel, intersectIds, queryOptions);
           logger.debug(`found intersections for ${id}: ${intersectIds.join(', ')}`);
 
-          doc.intersections = locations;
+          doc.intersections = await geometryService.transformAll(locations, geometryOptions);
         }
       }
+      await geometryService.transform(doc, geometryOptions);
 
       const code = 200;
       const response = createSerializer(include).serialize(doc);
@@ -162,6 +339,73 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
     })
   );
 
+  router.get(
+    `${path}/:id/children`,
+    validate(childrenValidations),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readLocationsGuard,
+    getChildrenHandler(queryFilters)
+  );
+
+  router.get(
+    `${path}/:id/ancestors`,
+    validate(ancestorsValidations),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readLocationsGuard,
+    getAncestorsHandler(queryFilters)
+  );
+
+  router.post(
+    `${path}/intersect`,
+    validate([
+      body('type').isString().isIn(['FeatureCollection', 'Feature', 'Polygon', 'MultiPolygon', 'GeometryCollection']),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const geojson = normalizeGeojson(req.body, false);
+
+      const areaKm2 = geojson && computeAreaKm2(geojson, false);
+      if (!areaKm2) {
+        const errors: ErrorObject[] = [
+          {
+            code: 400,
+            source: { pointer: '/body' },
+            title: 'ValidationError',
+            detail: 'Invalid GeoJSON, expected a polygonal geometry.',
+          },
+        ];
+        throw new ValidationError(errors, 400);
+      }
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const intersectIds = await getByGeometryIntersection(LocationModel, geojson, [], queryOptions);
+      const locations = await getByIds(LocationModel, intersectIds, queryOptions);
+
+      const intersections = locations.map((location) => {
+        const intersectionAreaKm2 = computeIntersectionAreaKm2(geojson, <any>location.geojson);
+        return {
+          ...location.toObject(),
+          $intersection: {
+            areaKm2: intersectionAreaKm2,
+            percentage: (intersectionAreaKm2 / areaKm2) * 100,
+            locationPercentage: location.areaKm2 ? (intersectionAreaKm2 / location.areaKm2) * 100 : null,
+          },
+        };
+      });
+      const sorted = orderBy(intersections, ['$intersection.percentage'], ['desc']);
+
+      const code = 200;
+      const response = createSerializer([], {}, { results: sorted.length, areaKm2 }).serialize(sorted);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
   router.post(
     path,
     validate([
@@ -176,6 +420,7 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
       body('geojson').optional().exists(),
       body('locations').optional().isArray(),
       body('locations.*').optional().isString().trim().notEmpty(),
+      body('dissolve').optional().isBoolean(),
       query('include').optional().isString().trim(),
       query('select').optional().isString().trim(),
       query('group').optional().isString().trim(),
@@ -216,6 +461,7 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/locations'
       body('geojson').optional().exists(),
       body('locations').optional().isArray(),
       body('locations.*').optional().isString().trim().notEmpty(),
+      body('dissolve').optional().isBoolean(),
       body('organization').optional().isString().trim(),
       body('version').optional().isNumeric(),
       query('include').optional().isString().trim(),
@@ -298,6 +544,10 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       query('page[cursor]').optional().isString().trim(),
       query('group').optional().isString().trim(),
       query('public').optional().isBoolean(),
+      ...spatialFilterValidations,
+      query('simplify[tolerance]').optional().isFloat({ min: 0 }),
+      query('simplify[vertices]').optional().isInt({ min: 4 }),
+      query('precision').optional().isInt({ min: 0, max: 15 }),
     ]),
     guard.enforcePrimaryGroup(),
     AuthzGuards.readLocationsGuard,
@@ -310,13 +560,19 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
         query = [query.concat([{ key: 'publicResource', op: '==', value: true }])] as MongooseQueryFilter[];
       }
       const predefined = queryFilters.concat(query);
-      const queryOptions = parser.parse(req.query, { predefined }, ['search']);
+      const queryOptions = withGeometryIntersection(
+        parser.parse(req.query, { predefined }, ['search']),
+        parseSpatialFilters(req.query)
+      );
 
       const searchResult = await LocationModel.esSearchOnlyIds(search, { organization: req.groups });
       const searchIds = search ? Object.keys(searchResult) : null;
 
       const { docs, total, cursor, aggs } = await getAll(LocationModel, queryOptions, searchIds, ['type']);
 
+      const geometryService = new LocationGeometryService(req.app.locals.redisClient, Number(REDIS_GEOMETRY_CACHE_TTL));
+      await geometryService.transformAll(docs, parseGeometryOptions(req.query));
+
       const paginator = new PaginationHelper({
         sizeTotal: total,
         pageSize: queryOptions.limit,
@@ -382,6 +638,52 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
     })
   );
 
+  router.get(
+    `${path}/export`,
+    validate([
+      query('format').isString().trim().isIn(LOCATION_EXPORT_FORMATS),
+      query('search').optional().isString().trim(),
+      query('filter').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+      query('public').optional().isBoolean(),
+      ...spatialFilterValidations,
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const search = <string>req.query.search;
+      const format = <ExportFormatEnum>req.query.format;
+
+      let query: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
+      if (boolean(req.query.public)) {
+        query = [query.concat([{ key: 'publicResource', op: '==', value: true }])] as MongooseQueryFilter[];
+      }
+      const predefined = queryFilters.concat(query);
+      const queryOptions = withGeometryIntersection(
+        parser.parse(req.query, { predefined }, ['search']),
+        parseSpatialFilters(req.query)
+      );
+
+      const searchResult = await LocationModel.esSearchOnlyIds(search, { organization: req.groups });
+      const searchIds = search ? Object.keys(searchResult) : null;
+
+      const cursor = await getAllStream(LocationModel, queryOptions, searchIds);
+      const transform = createLocationExportTransform(format, queryOptions.select);
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="locations.${format}"`);
+      res.status(200);
+
+      try {
+        await pipelineAsync(cursor, transform, res);
+      } catch (err) {
+        logger.error(`failed to export locations: ${err.message}`); // response stream already closed;
+      }
+    })
+  );
+
   router.get(
     `${path}/:id`,
     validate([
@@ -390,6 +692,9 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       query('select').optional().isString().trim(),
       query('sort').optional().isString().trim(),
       query('group').optional().isString().trim(),
+      query('simplify[tolerance]').optional().isFloat({ min: 0 }),
+      query('simplify[vertices]').optional().isInt({ min: 4 }),
+      query('precision').optional().isInt({ min: 0, max: 15 }),
     ]),
     guard.enforcePrimaryGroup(),
     AuthzGuards.readLocationsGuard,
@@ -405,6 +710,9 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
         throw new RecordNotFound(`Could not retrieve document.`, 404);
       }
 
+      const geometryOptions = parseGeometryOptions(req.query);
+      const geometryService = new LocationGeometryService(req.app.locals.redisClient, Number(REDIS_GEOMETRY_CACHE_TTL));
+
       if (include.includes('intersections')) {
         const queryOptions = parser.parse(null, { predefined });
 
@@ -415,9 +723,10 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
           const locations = await getByIds(LocationModel, intersectIds, queryOptions);
           logger.debug(`found intersections for ${id}: ${intersectIds.join(', ')}`);
 
-          doc.intersections = locations;
+          doc.intersections = await geometryService.transformAll(locations, geometryOptions);
         }
       }
+      await geometryService.transform(doc, geometryOptions);
 
       const code = 200;
       const response = createSerializer(include).serialize(doc);
@@ -440,9 +749,13 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       body('organization').optional().isString().trim(),
       body('publicResource').optional().isBoolean(),
       body('featured').optional().isBoolean(),
+      body('dissolve').optional().isBoolean(),
+      body('parent').optional({ nullable: true }).isString().trim(),
+      body('isoCode').optional({ nullable: true }).isString().trim(),
       query('include').optional().isString().trim(),
       query('select').optional().isString().trim(),
       query('group').optional().isString().trim(),
+      query('repair').optional().isBoolean(),
     ]),
     guard.enforcePrimaryGroup({ serviceAccounts: true }),
     AuthzGuards.writeLocationsGuard,
@@ -451,12 +764,51 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       const queryOptions = parser.parse(req.query);
 
       const body = req.body;
+      let repairs: GeometryRepair[];
+      if (boolean(req.query.repair)) {
+        ({ geojson: body.geojson, repairs } = repairLocationGeojson(body.geojson));
+      }
       const data = merge(body, { organization: req.groups[0] }); // enforce a single primary group;
 
       const doc = await save(LocationModel, data, queryOptions);
 
       const code = 200;
-      const response = createSerializer(include).serialize(doc);
+      const response = createSerializer(include, {}, repairs ? { repairs } : {}).serialize(doc);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/import`,
+    validate([
+      body('geojson.type').isString().trim().equals('FeatureCollection'),
+      body('geojson.features').isArray({ min: 1 }),
+      body('mapping.name').optional().isString().trim().notEmpty(),
+      body('mapping.slug').optional().isString().trim().notEmpty(),
+      body('mapping.type').optional().isString().trim().notEmpty(),
+      body('mapping.description').optional().isString().trim().notEmpty(),
+      body('type').optional().isString().trim().notEmpty(),
+      body('published').optional().isBoolean(),
+      body('publicResource').optional().isBoolean(),
+      body('featured').optional().isBoolean(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ serviceAccounts: true }),
+    AuthzGuards.writeLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const { geojson, mapping, ...defaults } = req.body;
+
+      const results = await importLocations(geojson, req.groups[0], mapping, pick(defaults, IMPORT_DEFAULT_FIELDS));
+
+      const meta = Object.values(ImportStatusEnum).reduce(
+        (acc, status) => ({ ...acc, [status]: results.filter((r) => r.status === status).length }),
+        { results: results.length }
+      );
+
+      const code = 200;
+      const response = createImportSerializer([], {}, meta).serialize({ results });
 
       res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
       res.status(code).send(response);
@@ -476,10 +828,14 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       body('organization').optional().isString().trim(),
       body('publicResource').optional().isBoolean(),
       body('featured').optional().isBoolean(),
+      body('dissolve').optional().isBoolean(),
+      body('parent').optional({ nullable: true }).isString().trim(),
+      body('isoCode').optional({ nullable: true }).isString().trim(),
       body('version').optional().isNumeric(),
       query('include').optional().isString().trim(),
       query('select').optional().isString().trim(),
       query('group').optional().isString().trim(),
+      query('repair').optional().isBoolean(),
     ]),
     guard.enforcePrimaryGroup({ serviceAccounts: true }),
     AuthzGuards.writeLocationsGuard,
@@ -496,13 +852,249 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
       if (!doc) {
         throw new RecordNotFound(`Could not retrieve document.`, 404);
       }
+      let repairs: GeometryRepair[];
+      if (boolean(req.query.repair) && body.geojson) {
+        ({ geojson: body.geojson, repairs } = repairLocationGeojson(body.geojson));
+      }
       const data = merge(body, { organization: req.groups[0] }); // enforce a single primary group;
 
       const queryOptionsGet = parser.parse(req.query, { predefined });
       const updated = await update(LocationModel, doc, data, queryOptionsGet);
 
       const code = 200;
-      const response = createSerializer(include).serialize(updated);
+      const response = createSerializer(include, {}, repairs ? { repairs } : {}).serialize(updated);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/:id/children`,
+    validate(childrenValidations),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readLocationsGuard,
+    getChildrenHandler(queryFilters)
+  );
+
+  router.get(
+    `${path}/:id/ancestors`,
+    validate(ancestorsValidations),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readLocationsGuard,
+    getAncestorsHandler(queryFilters)
+  );
+
+  router.get(
+    `${path}/:id/parent-suggestions`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      query('include').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+      query('minContainment').optional().isFloat({ min: 0, max: 1 }).toFloat(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const include = queryParamGroup(<string>req.query.include);
+      const minContainment = req.query.minContainment !== undefined ? Number(req.query.minContainment) : 0.5;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(LocationModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      if (doc.type === LocationTypeEnum.COLLECTION) {
+        throw new ValidationError(
+          [
+            {
+              code: 400,
+              source: { parameter: 'id' },
+              title: 'ValidationError',
+              detail: 'Collections cannot have a parent.',
+            },
+          ],
+          400
+        );
+      }
+
+      // candidates contain a point on the surface of the location, resolved using the "2dsphere" index;
+      const point = computePointOnSurface(<any>doc.geojson);
+      const predefined2 = predefined.concat([{ key: 'type', op: '!=', value: LocationTypeEnum.COLLECTION }]);
+      const candidateIds = await getByGeometryIntersection(
+        LocationModel,
+        point,
+        [doc.id],
+        parser.parse(null, { predefined: predefined2 })
+      );
+      const candidates = await getByIds(LocationModel, candidateIds, parser.parse(req.query, { predefined }));
+
+      const suggestions = candidates
+        .filter((candidate) => candidate.areaKm2 > doc.areaKm2)
+        .map((candidate) => {
+          const intersectionKm2 = computeIntersectionAreaKm2(<any>doc.geojson, <any>candidate.geojson, false);
+          return { ...candidate.toObject(), $containment: doc.areaKm2 ? intersectionKm2 / doc.areaKm2 : 0 };
+        })
+        .filter((candidate) => candidate.$containment >= minContainment);
+
+      const docs = sortBy(suggestions, 'areaKm2'); // smallest container first;
+      const meta = { results: docs.length };
+
+      const code = 200;
+      const response = createSerializer(include, {}, meta).serialize(docs);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/:id/revisions`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      query('filter').optional().isString().trim(),
+      query('include').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('page[number]').optional().isInt({ min: 0 }),
+      query('page[size]').optional().isInt({ min: 0 }),
+      query('page[cursor]').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const include = queryParamGroup(<string>req.query.include);
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(LocationModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const predefined2: MongooseQueryFilter[] = [{ key: 'location', op: '==', value: doc.id }];
+      const queryOptions2 = parser.parse({ sort: '-version', ...req.query }, { predefined: predefined2 }, ['search']);
+
+      const { docs, total, cursor } = await getAll(LocationRevisionModel, queryOptions2);
+
+      const paginator = new PaginationHelper({
+        sizeTotal: total,
+        pageSize: queryOptions2.limit,
+        currentPage: queryOptions2.skip,
+        currentCursor: queryOptions2.cursor.encoded,
+        nextCursor: cursor.next,
+        previousCursor: cursor.previous,
+      });
+      const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+      const meta: ResponseMeta = {
+        results: total,
+        pagination: {
+          total: paginator.getPageCount(),
+          size: queryOptions2.limit,
+        },
+      };
+      if (queryOptions2.cursor.decoded) {
+        meta.pagination = merge(meta.pagination, { nextCursor: cursor.next, previousCursor: cursor.previous });
+      } else {
+        meta.pagination = merge(meta.pagination, { page: queryOptions2.skip });
+      }
+
+      const code = 200;
+      const response = createRevisionSerializer(include, paginationLinks, meta).serialize(docs);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/:id/revisions/:version/diff`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      param('version').isInt({ min: 0 }),
+      query('compareTo').optional().isInt({ min: 0 }),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const version = req.params.version;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(LocationModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      const revision = await getById(LocationRevisionModel, version, { filter: { location: doc.id } }, ['version']);
+      if (!revision) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      // compare against the current location unless a revision version is specified;
+      let other: LocationSnapshot = doc;
+      if (req.query.compareTo) {
+        const compareTo = <string>req.query.compareTo;
+        other = await getById(LocationRevisionModel, compareTo, { filter: { location: doc.id } }, ['version']);
+        if (!other) {
+          throw new RecordNotFound(`Could not retrieve document.`, 404);
+        }
+      }
+      const diff = diffLocationSnapshots(revision, other);
+
+      const code = 200;
+      const response = createRevisionSerializer().serialize({ ...revision.toObject(), $diff: diff });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/:id/revisions/:version/restore`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      param('version').isInt({ min: 0 }),
+      query('include').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ serviceAccounts: true }),
+    AuthzGuards.writeLocationsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const version = req.params.version;
+
+      const include = queryParamGroup(<string>req.query.include);
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined });
+
+      const doc = await getById(LocationModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      const revision = await getById(LocationRevisionModel, version, { filter: { location: doc.id } }, ['version']);
+      if (!revision) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      // computed fields are recomputed on save, collections have no geometry snapshots;
+      const data = <any>pick(revision.toObject(), ['name', 'description', 'geojson']);
+
+      const queryOptionsGet = parser.parse(req.query, { predefined });
+      const updated = await update(LocationModel, doc, data, queryOptionsGet);
+
+      const code = 200;
+      const response = createSerializer(include, {}, { restoredVersion: revision.version }).serialize(updated);
 
       res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
       res.status(code).send(response);
@@ -0,0 +1,289 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Response, Router } from 'express';
+import asyncHandler from 'express-async-handler';
+import { body, param, query } from 'express-validator';
+import { merge } from 'lodash';
+import urljoin from 'url-join';
+
+import { DEFAULT_CONTENT_TYPE } from '../config';
+import { RecordNotFound } from '../errors';
+import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
+import { PaginationHelper } from '../helpers/paginator';
+import { getLogger } from '../logging';
+import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
+import { MetricDeadLetterModel, MetricDefinitionModel } from '../models';
+import { getAll, getById, remove, save, update } from '../models/utils';
+import { createSerializer as createDeadLetterSerializer } from '../serializers/MetricDeadLetterSerializer';
+import { createSerializer } from '../serializers/MetricDefinitionSerializer';
+import { createSerializer as createStatusSerializer } from '../serializers/StatusSerializer';
+import { ResponseMeta } from '../types/response';
+
+import { validate } from '.';
+
+const logger = getLogger();
+
+const getAdminRouter = (basePath: string = '/', routePath: string = '/management/metric-definitions') => {
+  const router: Router = Router();
+  const path = urljoin(basePath, routePath);
+
+  const parser = new MongooseQueryParser();
+
+  router.get(
+    path,
+    validate([
+      query('filter').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('page[number]').optional().isInt({ min: 0 }),
+      query('page[size]').optional().isInt({ min: 0 }),
+      query('page[cursor]').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const queryOptions = parser.parse(req.query, {}, ['search', 'populate']);
+
+      const { docs, total, cursor } = await getAll(MetricDefinitionModel, queryOptions);
+
+      const paginator = new PaginationHelper({
+        sizeTotal: total,
+        pageSize: queryOptions.limit,
+        currentPage: queryOptions.skip,
+        currentCursor: queryOptions.cursor.encoded,
+        nextCursor: cursor.next,
+        previousCursor: cursor.previous,
+      });
+      const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+      const meta: ResponseMeta = {
+        results: total,
+        pagination: {
+          total: paginator.getPageCount(),
+          size: queryOptions.limit,
+        },
+      };
+      if (queryOptions.cursor.decoded) {
+        meta.pagination = merge(meta.pagination, { nextCursor: cursor.next, previousCursor: cursor.previous });
+      } else {
+        meta.pagination = merge(meta.pagination, { page: queryOptions.skip });
+      }
+
+      const code = 200;
+      const response = createSerializer([], paginationLinks, meta).serialize(docs);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/dead-letters`,
+    validate([
+      query('filter').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('page[number]').optional().isInt({ min: 0 }),
+      query('page[size]').optional().isInt({ min: 0 }),
+      query('page[cursor]').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
+      const queryOptions = parser.parse({ sort: '-createdAt', ...req.query }, { predefined }, ['search', 'populate']);
+
+      const { docs, total, cursor } = await getAll(MetricDeadLetterModel, queryOptions);
+
+      const paginator = new PaginationHelper({
+        sizeTotal: total,
+        pageSize: queryOptions.limit,
+        currentPage: queryOptions.skip,
+        currentCursor: queryOptions.cursor.encoded,
+        nextCursor: cursor.next,
+        previousCursor: cursor.previous,
+      });
+      const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+      const meta: ResponseMeta = {
+        results: total,
+        pagination: {
+          total: paginator.getPageCount(),
+          size: queryOptions.limit,
+        },
+      };
+      if (queryOptions.cursor.decoded) {
+        meta.pagination = merge(meta.pagination, { nextCursor: cursor.next, previousCursor: cursor.previous });
+      } else {
+        meta.pagination = merge(meta.pagination, { page: queryOptions.skip });
+      }
+
+      const code = 200;
+      const response = createDeadLetterSerializer([], paginationLinks, meta).serialize(docs);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/dead-letters/:id`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
+      const queryOptions = parser.parse(req.query, { predefined });
+
+      const doc = await getById(MetricDeadLetterModel, id, queryOptions);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const code = 200;
+      const response = createDeadLetterSerializer().serialize(doc);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/:id`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const queryOptions = parser.parse(req.query);
+
+      const doc = await getById(MetricDefinitionModel, id, queryOptions, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const code = 200;
+      const response = createSerializer().serialize(doc);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    path,
+    validate([
+      body('id').optional().isUUID(4).trim().notEmpty(),
+      body('slug').isString().trim().notEmpty(),
+      body('name').optional().isString().trim(),
+      body('description').optional().isString().trim(),
+      body('units').optional().exists(),
+      body('jsonSchema').exists(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.writeMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const queryOptions = parser.parse(req.query);
+
+      const doc = await save(MetricDefinitionModel, req.body, queryOptions);
+
+      const code = 200;
+      const response = createSerializer().serialize(doc);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.put(
+    `${path}/:id`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      body('slug').optional().isString().trim().notEmpty(),
+      body('name').optional().isString().trim(),
+      body('description').optional().isString().trim(),
+      body('units').optional().exists(),
+      body('jsonSchema').optional().exists(),
+      body('version').optional().isNumeric(),
+      query('select').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.writeMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const doc = await getById(MetricDefinitionModel, id, {}, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const queryOptions = parser.parse(req.query);
+      const updated = await update(MetricDefinitionModel, doc, req.body, queryOptions);
+
+      const code = 200;
+      const response = createSerializer().serialize(updated);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.delete(
+    `${path}/:id`,
+    validate([param('id').isString().trim().notEmpty(), query('group').optional().isString().trim()]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.writeMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const doc = await getById(MetricDefinitionModel, id, {}, ['slug']);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      const success = await remove(MetricDefinitionModel, doc);
+
+      const code = 200;
+      const response = createStatusSerializer().serialize({ success });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  return router;
+};
+
+export default { getAdminRouter };
@@ -17,31 +17,360 @@
   specific language governing permissions and limitations under the License.
 */
 
+import * as turf from '@turf/turf';
 import { Response, Router } from 'express';
 import asyncHandler from 'express-async-handler';
-import { param, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { merge } from 'lodash';
 import Redlock from 'redlock';
+import { pipeline } from 'stream';
 import urljoin from 'url-join';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
 
-import { DEFAULT_CONTENT_TYPE, REDIS_LOCK_TTL } from '../config';
-import { DocumentError, RecordNotFound, TaskError, UnsupportedOperationType } from '../errors';
+import { DEFAULT_CONTENT_TYPE, METRIC_JOB_MAX_LOCATIONS, REDIS_LOCK_TTL } from '../config';
+import { DocumentError, InvalidParameterError, RecordNotFound, TaskError, UnsupportedOperationType } from '../errors';
 import { MongooseQueryFilter, MongooseQueryParser, QueryOptions } from '../helpers/mongoose';
 import { PaginationHelper } from '../helpers/paginator';
 import { forEachAsync } from '../helpers/util';
 import { getLogger } from '../logging';
 import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
-import { LocationModel, LocationTypeEnum, MetricModel } from '../models';
-import { aggregateCount, exists, getAll, getById, getOne, remove, removeById } from '../models/utils';
+import {
+  Job,
+  JobModel,
+  JobStatusEnum,
+  JobTask,
+  JobTaskStatusEnum,
+  Location,
+  LocationModel,
+  LocationTypeEnum,
+  Metric,
+  MetricModel,
+  OperationStatusEnum,
+} from '../models';
+import {
+  aggregateCount,
+  exists,
+  getAll,
+  getAllStream,
+  getById,
+  getByIds,
+  getOne,
+  remove,
+  removeById,
+  save,
+} from '../models/utils';
+import { createSerializer as createJobSerializer } from '../serializers/JobSerializer';
 import { createSerializer } from '../serializers/MetricSerializer';
 import { createSerializer as createStatusSerializer } from '../serializers/StatusSerializer';
-import { OperationTypeEnum, SNSComputeMetricEvent, triggerComputeMetricEvent } from '../services/sns';
+import {
+  createMetricExportTransform,
+  ExportFormatEnum,
+  EXPORT_CONTENT_TYPES,
+  METRIC_EXPORT_FORMATS,
+} from '../services/export-service';
+import { getJobProgress, isJobFinished, resolveExpectedMetrics } from '../services/job-service';
+import { getMetricProvider, getMetricProviders, MetricProvider } from '../services/metric-provider-service';
+import {
+  diffMetricVersions,
+  interpolatePercentiles,
+  MetricAggregateOptions,
+  MetricAggregateRank,
+  MetricAggregateStats,
+  percentileRanks,
+} from '../services/metric-service';
+import { dispatchOperation, recordOperation } from '../services/operation-service';
+import {
+  OperationTypeEnum,
+  SNSComputeMetricEvent,
+  triggerComputeMetricEvent,
+  triggerMetricJobEvent,
+} from '../services/sns';
 import { ResponseMeta, SuccessResponse } from '../types/response';
 
 import { queryParamGroup, validate } from '.';
 
 const logger = getLogger();
 
+const pipelineAsync = promisify(pipeline);
+
+// location columns of the metric exports;
+const EXPORT_LOCATION_SELECT = 'location.slug,location.name,location.version';
+
+/**
+ * Aggregate a numeric field of the latest metric versions across locations.
+ * Returns the summary statistics and a page of the locations ranked by value.
+ * @param slug
+ * @param path: dotted path inside the metric object;
+ * @param locationFilter: filter applied on the metric locations;
+ * @param options
+ */
+const aggregateMetricValues = async (
+  slug: string,
+  path: string,
+  locationFilter: object,
+  options: MetricAggregateOptions = {}
+): Promise<{ stats: MetricAggregateStats; ranking: MetricAggregateRank[] }> => {
+  const { order = 'desc', skip = 0, limit = 10, percentiles = [25, 50, 75] } = options;
+  const direction = order === 'asc' ? 1 : -1;
+
+  const pipeline: any[] = [
+    { $match: { slug } },
+    // keep the latest version for each location;
+    { $sort: { location: 1, version: -1 } },
+    {
+      $group: {
+        _id: '$location',
+        id: { $first: '$_id' },
+        version: { $first: '$version' },
+        value: { $first: `$metric.${path}` },
+      },
+    },
+    { $match: { value: { $type: 'number' } } },
+    // only the filtered location fields are joined;
+    {
+      $lookup: {
+        from: LocationModel.collection.name,
+        let: { location: '$_id' },
+        pipeline: [
+          { $match: { $expr: { $eq: ['$_id', '$$location'] } } },
+          { $project: Object.keys(locationFilter).reduce((acc, k) => ({ ...acc, [k]: 1 }), { _id: 1 }) },
+        ],
+        as: 'location',
+      },
+    },
+    { $match: Object.entries(locationFilter).reduce((acc, [k, v]) => ({ ...acc, [`location.${k}`]: v }), {}) },
+  ];
+
+  const [result] = await MetricModel.aggregate([
+    ...pipeline,
+    {
+      $facet: {
+        stats: [
+          {
+            $group: {
+              _id: null,
+              count: { $sum: 1 },
+              sum: { $sum: '$value' },
+              avg: { $avg: '$value' },
+              min: { $min: '$value' },
+              max: { $max: '$value' },
+            },
+          },
+        ],
+        ranking: [
+          { $sort: { value: direction, _id: 1 } },
+          { $skip: skip },
+          { $limit: Math.max(limit, 1) },
+          { $project: { _id: 0, id: 1, location: '$_id', version: 1, value: 1 } },
+        ],
+      },
+    },
+  ]).exec();
+
+  const { count = 0, sum = 0, avg = null, min = null, max = null } = result.stats[0] || {};
+
+  // the percentiles are interpolated from the values at the closest ranks;
+  const ranks = percentileRanks(count, percentiles);
+  const valueAt: { [rank: number]: number } = {};
+  if (ranks.length) {
+    const [values] = await MetricModel.aggregate([
+      ...pipeline,
+      {
+        $facet: ranks.reduce(
+          (acc, rank) => ({
+            ...acc,
+            [rank]: [
+              { $sort: { value: 1, _id: 1 } },
+              { $skip: rank },
+              { $limit: 1 },
+              { $project: { _id: 0, value: 1 } },
+            ],
+          }),
+          {}
+        ),
+      },
+    ]).exec();
+    ranks.forEach((rank) => (valueAt[rank] = values[rank][0].value));
+  }
+
+  return {
+    stats: { count, sum, avg, min, max, percentiles: interpolatePercentiles(count, percentiles, valueAt) },
+    ranking: result.ranking.slice(0, limit).map((item, i) => ({ ...item, rank: skip + i + 1 })),
+  };
+};
+
+/**
+ * Compute the metrics of a location in-process and save them as new metric versions.
+ * Returns the slugs of the saved metrics, failures are logged and skipped.
+ * @param parent: location with its geojson;
+ * @param providers
+ */
+const saveLocalMetrics = async (parent: Location, providers: MetricProvider[]): Promise<string[]> => {
+  const saved: string[] = [];
+  await forEachAsync(providers, async (provider) => {
+    try {
+      const doc: Metric = {
+        slug: provider.slug,
+        location: parent.id,
+        metric: provider.compute(<turf.AllGeoJSON>parent.geojson),
+        locationVersion: parent.version,
+      };
+      await save(MetricModel, new MetricModel(doc));
+      saved.push(provider.slug);
+    } catch (err) {
+      logger.error('could not compute metric: %s for: %s (%s)', provider.slug, parent.slug, err.message);
+    }
+  });
+  return saved;
+};
+
+/**
+ * Resolve the latest version of a location metric.
+ * @param parser
+ * @param queryFilters: filters applied to the metric location
+ * @param groups
+ * @param locationId: location ID or slug
+ * @param metricId: metric ID or slug
+ */
+const getLatestLocationMetric = async (
+  parser: MongooseQueryParser,
+  queryFilters: MongooseQueryFilter[],
+  groups: string[],
+  locationId: string,
+  metricId: string
+) => {
+  const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: groups }]);
+  const queryOptions = parser.parse(null, { predefined });
+
+  const parentId = await exists(LocationModel, locationId, queryOptions, ['slug']);
+  if (!parentId) {
+    throw new RecordNotFound(`Could not retrieve document.`, 404);
+  }
+
+  const predefined2: MongooseQueryFilter[] = [{ key: 'location', op: '==', value: parentId }];
+  const latest = await getOne(MetricModel, metricId, parser.parse(null, { predefined: predefined2 }), ['slug'], {
+    version: -1,
+  });
+  if (!latest) {
+    throw new RecordNotFound(`Could not retrieve document.`, 404);
+  }
+  return { parentId, latest };
+};
+
+const metricHistoryValidations = [
+  param('locationId').isString().trim().notEmpty(),
+  param('metricId').isString().trim().notEmpty(),
+  query('filter').optional().isString().trim(),
+  query('include').optional().isString().trim(),
+  query('select').optional().isString().trim(),
+  query('sort').optional().isString().trim(),
+  query('page[number]').optional().isInt({ min: 0 }),
+  query('page[size]').optional().isInt({ min: 0 }),
+  query('page[cursor]').optional().isString().trim(),
+  query('group').optional().isString().trim(),
+];
+
+const metricCompareValidations = [
+  param('locationId').isString().trim().notEmpty(),
+  param('metricId').isString().trim().notEmpty(),
+  query('from').optional().isInt({ min: 0 }).toInt(),
+  query('to').optional().isInt({ min: 0 }).toInt(),
+  query('group').optional().isString().trim(),
+];
+
+/**
+ * Retrieve the versions of a location metric, latest first.
+ * @param queryFilters: filters applied to the metric location
+ */
+const getMetricHistoryHandler = (queryFilters: MongooseQueryFilter[]) => {
+  const parser = new MongooseQueryParser();
+
+  return asyncHandler(async (req: AuthzRequest, res: Response) => {
+    const locationId = req.params.locationId;
+    const metricId = req.params.metricId;
+    const include = queryParamGroup(<string>req.query.include);
+
+    const { parentId, latest } = await getLatestLocationMetric(parser, queryFilters, req.groups, locationId, metricId);
+
+    const predefined: MongooseQueryFilter[] = [
+      { key: 'location', op: '==', value: parentId },
+      { key: 'slug', op: '==', value: latest.slug },
+    ];
+    const queryOptions = parser.parse({ sort: '-version', ...req.query }, { predefined }, ['search']);
+
+    const { docs, total, cursor } = await getAll(MetricModel, queryOptions);
+
+    const paginator = new PaginationHelper({
+      sizeTotal: total,
+      pageSize: queryOptions.limit,
+      currentPage: queryOptions.skip,
+      currentCursor: queryOptions.cursor.encoded,
+      nextCursor: cursor.next,
+      previousCursor: cursor.previous,
+    });
+    const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+    const meta: ResponseMeta = {
+      results: total,
+      pagination: {
+        total: paginator.getPageCount(),
+        size: queryOptions.limit,
+      },
+    };
+    if (queryOptions.cursor.decoded) {
+      meta.pagination = merge(meta.pagination, { nextCursor: cursor.next, previousCursor: cursor.previous });
+    } else {
+      meta.pagination = merge(meta.pagination, { page: queryOptions.skip });
+    }
+
+    const code = 200;
+    const response = createSerializer(include, paginationLinks, meta).serialize(docs);
+
+    res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+    res.status(code).send(response);
+  });
+};
+
+/**
+ * Compare two versions of a location metric, defaults to the latest version and the previous one.
+ * @param queryFilters: filters applied to the metric location
+ */
+const getMetricCompareHandler = (queryFilters: MongooseQueryFilter[]) => {
+  const parser = new MongooseQueryParser();
+
+  return asyncHandler(async (req: AuthzRequest, res: Response) => {
+    const locationId = req.params.locationId;
+    const metricId = req.params.metricId;
+
+    const { parentId, latest } = await getLatestLocationMetric(parser, queryFilters, req.groups, locationId, metricId);
+
+    // defaults to the latest version, compared with the previous one;
+    const toVersion = req.query.to !== undefined ? Number(req.query.to) : latest.version;
+    const fromVersion = req.query.from !== undefined ? Number(req.query.from) : toVersion - 1;
+
+    const predefined: MongooseQueryFilter[] = [
+      { key: 'location', op: '==', value: parentId },
+      { key: 'slug', op: '==', value: latest.slug },
+    ];
+    const queryOptions = parser.parse(null, { predefined });
+
+    const [from, to] = await Promise.all([
+      getOne(MetricModel, String(fromVersion), queryOptions, ['version'], { version: -1 }),
+      getOne(MetricModel, String(toVersion), queryOptions, ['version'], { version: -1 }),
+    ]);
+    if (!from || !to) {
+      throw new RecordNotFound(`Could not retrieve document.`, 404);
+    }
+
+    const code = 200;
+    const response = createSerializer().serialize({ ...to.toObject(), $diff: diffMetricVersions(from, to) });
+
+    res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+    res.status(code).send(response);
+  });
+};
+
 const getRouter = (basePath: string = '/', routePath: string = '/metrics') => {
   const router: Router = Router();
   const path = urljoin(basePath, routePath);
@@ -65,6 +394,86 @@ const getRouter = (basePath: string = '/', routePath: string = '/metrics') => {
     })
   );
 
+  router.get(
+    `${path}/aggregate`,
+    validate([
+      query('slug').isString().trim().notEmpty(),
+      query('path')
+        .isString()
+        .trim()
+        .matches(/^[\w-]+(\.[\w-]+)*$/),
+      query('order').optional().isIn(['asc', 'desc']),
+      query('percentiles')
+        .optional()
+        .isString()
+        .trim()
+        .matches(/^\d+(,\d+)*$/)
+        .custom((v: string) => v.split(',').every((p) => Number(p) <= 100)),
+      query('include').optional().isString().trim(),
+      query('page[number]').optional().isInt({ min: 0 }),
+      query('page[size]').optional().isInt({ min: 0 }),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const slug = <string>req.query.slug;
+      const metricPath = <string>req.query.path;
+      const include = queryParamGroup(<string>req.query.include);
+      const percentiles = req.query.percentiles ? (<string>req.query.percentiles).split(',').map(Number) : undefined;
+
+      const queryOptions = parser.parse({ include: req.query.include, page: req.query.page }, {}, ['search']);
+
+      const { stats, ranking } = await aggregateMetricValues(
+        slug,
+        metricPath,
+        { published: true, organization: { $in: req.groups } },
+        {
+          order: <'asc' | 'desc'>req.query.order,
+          skip: (queryOptions.skip - 1) * queryOptions.limit,
+          limit: queryOptions.limit,
+          percentiles,
+        }
+      );
+
+      // keep the ranking order;
+      const docs = await getByIds(
+        MetricModel,
+        ranking.map((item) => item.id),
+        { populate: queryOptions.populate }
+      );
+      const ranked = ranking
+        .map((item) => {
+          const doc = docs.find((d) => d.id === item.id);
+          return doc && { ...doc.toObject(), $rank: item.rank, $value: item.value };
+        })
+        .filter((doc) => !!doc);
+
+      const paginator = new PaginationHelper({
+        sizeTotal: stats.count,
+        pageSize: queryOptions.limit,
+        currentPage: queryOptions.skip,
+      });
+      const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+      const meta = {
+        results: stats.count,
+        pagination: {
+          total: paginator.getPageCount(),
+          size: queryOptions.limit,
+          page: queryOptions.skip,
+        },
+        stats: { slug, path: metricPath, ...stats },
+      };
+
+      const code = 200;
+      const response = createSerializer(include, paginationLinks, meta).serialize(ranked);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
   router.get(
     `${path}/:locationId`,
     validate([
@@ -134,6 +543,58 @@ const getRouter = (basePath: string = '/', routePath: string = '/metrics') => {
     })
   );
 
+  router.get(
+    `${path}/:locationId/export`,
+    validate([
+      param('locationId').isString().trim().notEmpty(),
+      query('format').isString().trim().isIn(METRIC_EXPORT_FORMATS),
+      query('fields').optional().isString().trim(),
+      query('fields').if(query('format').equals(ExportFormatEnum.CSV)).notEmpty(),
+      query('filter').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const locationId = req.params.locationId;
+      const format = <ExportFormatEnum>req.query.format;
+      const fields = queryParamGroup(<string>req.query.fields);
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined }, ['search']);
+
+      const location = await getById(LocationModel, locationId, queryOptions, ['slug']);
+      if (!location) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const predefined2: MongooseQueryFilter[] = [
+        location.type === LocationTypeEnum.COLLECTION
+          ? { key: 'location', op: 'in', value: location.locations as string[] }
+          : { key: 'location', op: '==', value: location.id },
+      ];
+      const queryOptions2 = parser.parse(
+        { ...req.query, include: 'location', select: EXPORT_LOCATION_SELECT },
+        { predefined: predefined2 },
+        ['search']
+      );
+
+      const transform = createMetricExportTransform(format, fields);
+      const cursor = await getAllStream(MetricModel, queryOptions2);
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="metrics-${location.slug}.${format}"`);
+      res.status(200);
+
+      try {
+        await pipelineAsync(cursor, transform, res);
+      } catch (err) {
+        logger.error(`failed to export metrics: ${err.message}`); // response stream already closed;
+      }
+    })
+  );
+
   router.get(
     `${path}/:locationId/:metricId/`,
     validate([
@@ -175,6 +636,22 @@ const getRouter = (basePath: string = '/', routePath: string = '/metrics') => {
     })
   );
 
+  router.get(
+    `${path}/:locationId/:metricId/history`,
+    validate(metricHistoryValidations),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readMetricsGuard,
+    getMetricHistoryHandler(queryFilters)
+  );
+
+  router.get(
+    `${path}/:locationId/:metricId/compare`,
+    validate(metricCompareValidations),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readMetricsGuard,
+    getMetricCompareHandler(queryFilters)
+  );
+
   return router;
 };
 
@@ -185,6 +662,231 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
   const parser = new MongooseQueryParser();
   const queryFilters: MongooseQueryFilter[] = [];
 
+  router.get(
+    `${path}/export`,
+    validate([
+      query('format').isString().trim().isIn(METRIC_EXPORT_FORMATS),
+      query('fields').optional().isString().trim(),
+      query('fields').if(query('format').equals(ExportFormatEnum.CSV)).notEmpty(),
+      query('filter').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const format = <ExportFormatEnum>req.query.format;
+      const fields = queryParamGroup(<string>req.query.fields);
+
+      // metrics are scoped to the workspace by their locations;
+      const locationIds: string[] = await LocationModel.find({ organization: { $in: req.groups } }).distinct('_id');
+
+      const predefined = queryFilters.concat([{ key: 'location', op: 'in', value: locationIds }]);
+      const queryOptions = parser.parse(
+        { ...req.query, include: 'location', select: EXPORT_LOCATION_SELECT },
+        { predefined },
+        ['search']
+      );
+
+      const transform = createMetricExportTransform(format, fields);
+      const cursor = await getAllStream(MetricModel, queryOptions);
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="metrics.${format}"`);
+      res.status(200);
+
+      try {
+        await pipelineAsync(cursor, transform, res);
+      } catch (err) {
+        logger.error(`failed to export metrics: ${err.message}`); // response stream already closed;
+      }
+    })
+  );
+
+  router.get(
+    `${path}/jobs`,
+    validate([
+      query('filter').optional().isString().trim(),
+      query('select').optional().isString().trim(),
+      query('sort').optional().isString().trim(),
+      query('page[number]').optional().isInt({ min: 0 }),
+      query('page[size]').optional().isInt({ min: 0 }),
+      query('page[cursor]').optional().isString().trim(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse({ sort: '-createdAt', ...req.query }, { predefined }, ['search']);
+
+      const { docs, total, cursor } = await getAll(JobModel, queryOptions);
+
+      const paginator = new PaginationHelper({
+        sizeTotal: total,
+        pageSize: queryOptions.limit,
+        currentPage: queryOptions.skip,
+        currentCursor: queryOptions.cursor.encoded,
+        nextCursor: cursor.next,
+        previousCursor: cursor.previous,
+      });
+      const paginationLinks = paginator.getPaginationLinks(req.path, req.query);
+
+      const meta: ResponseMeta = {
+        results: total,
+        pagination: {
+          total: paginator.getPageCount(),
+          size: queryOptions.limit,
+        },
+      };
+      if (queryOptions.cursor.decoded) {
+        meta.pagination = merge(meta.pagination, { nextCursor: cursor.next, previousCursor: cursor.previous });
+      } else {
+        meta.pagination = merge(meta.pagination, { page: queryOptions.skip });
+      }
+
+      // the tasks are only listed by ID;
+      const jobs = docs.map((doc) => ({ ...doc.toObject(), tasks: undefined, $progress: getJobProgress(doc) }));
+
+      const code = 200;
+      const response = createJobSerializer([], paginationLinks, meta).serialize(jobs);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.get(
+    `${path}/jobs/:id`,
+    validate([
+      param('id').isString().trim().notEmpty(),
+      query('taskStatus').optional().isIn(Object.values(JobTaskStatusEnum)),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+      const taskStatus = req.query.taskStatus;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined }, ['search']);
+
+      const doc = await getById(JobModel, id, queryOptions);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      const job = doc.toObject();
+      if (taskStatus) {
+        job.tasks = job.tasks.filter((task: JobTask) => task.status === taskStatus);
+      }
+
+      const code = 200;
+      const response = createJobSerializer().serialize({ ...job, $progress: getJobProgress(doc) });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/jobs`,
+    validate([
+      body('filter').optional().isString().trim(),
+      body('resources').optional().isArray(),
+      body('resources.*').isString().trim().notEmpty(),
+      query('group').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.writeMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const { filter = '', resources = [] } = req.body;
+
+      const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: '==', value: req.groups[0] }];
+      const queryOptions: QueryOptions = merge(parser.parse({ filter }, { predefined }, ['search']), {
+        select: { id: 1, slug: 1, version: 1 },
+      });
+
+      const total = await LocationModel.countDocuments(queryOptions.filter);
+      if (!total) {
+        throw new InvalidParameterError('No locations match the filter.', 400);
+      }
+      if (total > Number(METRIC_JOB_MAX_LOCATIONS)) {
+        throw new InvalidParameterError(
+          `Too many locations match the filter: ${total}, maximum allowed: ${METRIC_JOB_MAX_LOCATIONS}.`,
+          400
+        );
+      }
+
+      const tasks: JobTask[] = [];
+      const cursor = await getAllStream(LocationModel, queryOptions);
+      for await (const location of cursor) {
+        tasks.push({
+          location: location.id,
+          slug: location.slug,
+          version: location.version,
+          status: JobTaskStatusEnum.PENDING,
+        });
+      }
+
+      const job: Job = {
+        organization: req.groups[0],
+        filter,
+        resources,
+        tasks,
+        createdBy: req.identity.sub,
+      };
+      const doc = await save(JobModel, new JobModel(job));
+
+      await triggerMetricJobEvent({ jobId: doc.id });
+
+      const code = 202;
+      const response = createJobSerializer().serialize({ ...doc.toObject(), $progress: getJobProgress(doc) });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  router.post(
+    `${path}/jobs/:id/cancel`,
+    validate([param('id').isString().trim().notEmpty(), query('group').optional().isString().trim()]),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.writeMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const id = req.params.id;
+
+      const predefined = queryFilters.concat([{ key: 'organization', op: 'in', value: req.groups }]);
+      const queryOptions = parser.parse(null, { predefined }, ['search']);
+
+      const doc = await getById(JobModel, id, queryOptions);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+      if (isJobFinished(doc)) {
+        throw new TaskError(`Job already ${doc.status}: ${doc.id}`, 400);
+      }
+
+      // tasks already dispatched are still recorded when their results arrive;
+      doc.tasks
+        .filter((task) => task.status === JobTaskStatusEnum.PENDING)
+        .forEach((task) => {
+          task.status = JobTaskStatusEnum.CANCELLED;
+          task.updatedAt = new Date();
+        });
+      doc.status = JobStatusEnum.CANCELLED;
+      doc.completedAt = new Date();
+
+      const job = await save(JobModel, doc);
+
+      const code = 200;
+      const response = createJobSerializer().serialize({ ...job.toObject(), $progress: getJobProgress(job) });
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
   router.get(
     `${path}/:locationId`,
     validate([
@@ -289,6 +991,22 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
     })
   );
 
+  router.get(
+    `${path}/:locationId/:metricId/history`,
+    validate(metricHistoryValidations),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    getMetricHistoryHandler(queryFilters)
+  );
+
+  router.get(
+    `${path}/:locationId/:metricId/compare`,
+    validate(metricCompareValidations),
+    guard.enforcePrimaryGroup(),
+    AuthzGuards.readMetricsGuard,
+    getMetricCompareHandler(queryFilters)
+  );
+
   router.delete(
     `${path}/:locationId/`,
     validate([param('locationId').isString().trim().notEmpty(), query('group').optional().isString().trim()]),
@@ -371,16 +1089,18 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
     AuthzGuards.writeMetricsGuard,
     asyncHandler(async (req: AuthzRequest, res: Response) => {
       const locationId = req.params.locationId;
-      const operationType = req.query.operationType;
+      const operationType = <OperationTypeEnum>req.query.operationType;
 
-      if (!Object.values(OperationTypeEnum).includes(<any>operationType)) {
+      if (!Object.values(OperationTypeEnum).includes(operationType)) {
         throw new UnsupportedOperationType(`Unsupported operation type.`, 400);
       }
 
       const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
       const queryOptions = parser.parse(null, { predefined });
 
-      const options: QueryOptions = merge(queryOptions, { select: { id: 1, slug: 1, version: 1 } });
+      const options: QueryOptions = merge(queryOptions, {
+        select: { id: 1, slug: 1, version: 1, organization: 1, geojson: 1, locations: 1, dissolve: 1 },
+      });
 
       const parent = await getById(LocationModel, locationId, options, ['slug']);
       if (!parent) {
@@ -394,19 +1114,34 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
 
       await redlock
         .lock(resource, Number(REDIS_LOCK_TTL))
-        .then(async () => {
+        .then(async (lock) => {
           logger.debug(`successfully created lock for: ${resource}`);
 
           const message: SNSComputeMetricEvent = {
             id: parent.id,
-            operationType: <any>operationType,
+            operationType: operationType,
             version: parent.version,
             resources: [],
           };
-          const messageId = await triggerComputeMetricEvent(message);
+          const operationId = await dispatchOperation(
+            {
+              type: message.operationType,
+              location: parent.id,
+              organization: parent.organization,
+              version: parent.version,
+              resources: message.resources,
+              expected: await resolveExpectedMetrics(parent.id, message.resources, operationType),
+              lock: { resource, value: lock.value }, // released when the results arrive;
+              requestedBy: req.identity.sub,
+            },
+            () => triggerComputeMetricEvent(message)
+          );
+
+          // the metrics with a local provider are computed in-process, next to the external workers;
+          const computed = await saveLocalMetrics(parent, getMetricProviders(operationType));
 
           const code = 200;
-          const response: SuccessResponse = { code, data: { operationId: messageId } };
+          const response: SuccessResponse = { code, data: { operationId, computed } };
 
           res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
           res.status(code).send(response);
@@ -434,16 +1169,18 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
     asyncHandler(async (req: AuthzRequest, res: Response) => {
       const locationId = req.params.locationId;
       const metricId = req.params.metricId;
-      const operationType = req.query.operationType;
+      const operationType = <OperationTypeEnum>req.query.operationType;
 
-      if (!Object.values(OperationTypeEnum).includes(<any>operationType)) {
+      if (!Object.values(OperationTypeEnum).includes(operationType)) {
         throw new UnsupportedOperationType(`Unsupported operation type.`, 400);
       }
 
       const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
       const queryOptions = parser.parse(null, { predefined });
 
-      const options: QueryOptions = merge(queryOptions, { select: { id: 1, slug: 1, version: 1 } });
+      const options: QueryOptions = merge(queryOptions, {
+        select: { id: 1, slug: 1, version: 1, organization: 1, geojson: 1, locations: 1, dissolve: 1 },
+      });
 
       const parent = await getById(LocationModel, locationId, options, ['slug']);
       if (!parent) {
@@ -465,19 +1202,63 @@ const getAdminRouter = (basePath: string = '/', routePath: string = '/management
 
       await redlock
         .lock(resource, Number(REDIS_LOCK_TTL))
-        .then(async () => {
+        .then(async (lock) => {
           logger.debug(`successfully created lock for: ${resource}`);
 
+          const provider = getMetricProvider(child.slug, operationType);
+          if (provider) {
+            const operationId = uuidv4();
+            const startedAt = new Date();
+            const saved = await saveLocalMetrics(parent, [provider]);
+
+            await lock.unlock().catch(() => logger.warn(`could not release lock for: ${resource}`));
+
+            await recordOperation({
+              id: operationId,
+              type: operationType,
+              location: parent.id,
+              organization: parent.organization,
+              version: parent.version,
+              resources: [child.slug],
+              status: saved.length ? OperationStatusEnum.SUCCEEDED : OperationStatusEnum.FAILED,
+              received: saved,
+              startedAt,
+              completedAt: new Date(),
+              requestedBy: req.identity.sub,
+            });
+            if (!saved.length) {
+              throw new TaskError(`Could not compute: ${child.slug} for: ${parent.slug}`, 500);
+            }
+
+            const code = 200;
+            const response: SuccessResponse = { code, data: { operationId, computed: saved } };
+
+            res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+            return res.status(code).send(response);
+          }
+
           const message: SNSComputeMetricEvent = {
             id: parent.id,
-            operationType: <any>operationType,
+            operationType: operationType,
             version: parent.version,
             resources: [child.slug],
           };
-          const messageId = await triggerComputeMetricEvent(message);
+          const operationId = await dispatchOperation(
+            {
+              type: message.operationType,
+              location: parent.id,
+              organization: parent.organization,
+              version: parent.version,
+              resources: message.resources,
+              expected: message.resources,
+              lock: { resource, value: lock.value }, // released when the results arrive;
+              requestedBy: req.identity.sub,
+            },
+            () => triggerComputeMetricEvent(message)
+          );
 
           const code = 200;
-          const response: SuccessResponse = { code, data: { operationId: messageId } };
+          const response: SuccessResponse = { code, data: { operationId } };
 
           res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
           res.status(code).send(response);
@@ -19,15 +19,22 @@
 
 import { Response, Router } from 'express';
 import asyncHandler from 'express-async-handler';
+import { param, query } from 'express-validator';
 import urljoin from 'url-join';
 
 import { API_BASE, DEFAULT_CONTENT_TYPE } from '../config';
+import { RecordNotFound } from '../errors';
+import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
 import { forEachAsync } from '../helpers/util';
 import { getLogger } from '../logging';
-import { AuthzRequest } from '../middlewares/authz-guards';
-import { DashboardModel, LayerModel, LocationModel, WidgetModel } from '../models';
+import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
+import { DashboardModel, LayerModel, LocationModel, OperationModel, WidgetModel } from '../models';
+import { getById } from '../models/utils';
+import { createSerializer } from '../serializers/OperationSerializer';
 import { createSerializer as createStatusSerializer } from '../serializers/StatusSerializer';
 
+import { validate } from '.';
+
 const logger = getLogger();
 
 const getRouter = (basePath: string = API_BASE, routePath: string = '/operations') => {
@@ -53,4 +60,37 @@ const getRouter = (basePath: string = API_BASE, routePath: string = '/operations
   return router;
 };
 
-export default { getRouter };
+const getStatusRouter = (basePath: string = API_BASE, routePath: string = '/operations') => {
+  const router: Router = Router();
+  const path = urljoin(basePath, routePath);
+
+  const parser = new MongooseQueryParser();
+
+  router.get(
+    `${path}/:operationId`,
+    validate([param('operationId').isString().trim().notEmpty(), query('group').optional().isString().trim()]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readMetricsGuard,
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const operationId = req.params.operationId;
+
+      const predefined: MongooseQueryFilter[] = [{ key: 'organization', op: 'in', value: req.groups }];
+      const queryOptions = parser.parse(null, { predefined }, ['search']);
+
+      const doc = await getById(OperationModel, operationId, queryOptions);
+      if (!doc) {
+        throw new RecordNotFound(`Could not retrieve document.`, 404);
+      }
+
+      const code = 200;
+      const response = createSerializer().serialize(doc);
+
+      res.setHeader('Content-Type', DEFAULT_CONTENT_TYPE);
+      res.status(code).send(response);
+    })
+  );
+
+  return router;
+};
+
+export default { getRouter, getStatusRouter };
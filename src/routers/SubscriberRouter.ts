@@ -18,22 +18,101 @@
 */
 
 import { json } from 'body-parser';
+import { boolean } from 'boolean';
 import { Request, Response, Router } from 'express';
 import asyncHandler from 'express-async-handler';
+import { isNumber, pick } from 'lodash';
 import urljoin from 'url-join';
 
-import { validateKeys } from '../helpers/util';
+import { REQUIRE_METRIC_DEFINITIONS } from '../config';
+import { ParameterRequiredError } from '../errors';
+import { forEachAsync, validateKeys } from '../helpers/util';
 import { getLogger } from '../logging';
 import { handleSNSMessage, SubscriptionError } from '../middlewares/subscriber';
-import { Metric, MetricModel } from '../models';
+import {
+  JobModel,
+  JobStatusEnum,
+  JobTaskStatusEnum,
+  LocationModel,
+  Metric,
+  MetricDeadLetter,
+  MetricDeadLetterModel,
+  MetricDefinitionModel,
+  MetricModel,
+  MetricRejectionEnum,
+} from '../models';
 import { save } from '../models/utils';
 import { createSerializer as createStatusSerializer } from '../serializers/StatusSerializer';
+import { resolveTaskStatus } from '../services/job-service';
+import { validateMetricPayload } from '../services/metric-service';
+import { updateOperations } from '../services/operation-service';
 
 const logger = getLogger();
 
 // Amazon SNS sends Content-Type 'text/plain; charset=UTF-8'
 const plainTextParser = json({ type: 'text/plain' });
 
+/**
+ * Persist a rejected result, scoped to the organization of the location when available.
+ * @param deadLetter
+ */
+const saveDeadLetter = async (deadLetter: MetricDeadLetter): Promise<void> => {
+  try {
+    const location = typeof deadLetter.location === 'string' ? deadLetter.location : null;
+    const parent = location && (await LocationModel.findById(location).select(['organization']).lean());
+
+    await MetricDeadLetterModel.create({
+      ...deadLetter,
+      location,
+      organization: parent ? parent.organization : null,
+    });
+  } catch (err) {
+    logger.error(err);
+  }
+};
+
+/**
+ * Record a result on the tasks of the jobs which dispatched the location.
+ * Results of cancelled jobs are still recorded for the tasks dispatched before cancelling.
+ * @param location
+ * @param slug
+ * @param accepted
+ */
+const updateJobTasks = async (location: string, slug: string, accepted: boolean): Promise<void> => {
+  try {
+    const jobs = await JobModel.find({
+      status: { $in: [JobStatusEnum.RUNNING, JobStatusEnum.CANCELLED] },
+      tasks: { $elemMatch: { location, status: JobTaskStatusEnum.DISPATCHED } },
+    })
+      .select(['_id'])
+      .lean();
+
+    await forEachAsync(jobs, async ({ _id }) => {
+      // only the updated task is returned, jobs embed up to thousands of tasks;
+      const job = await JobModel.findOneAndUpdate(
+        { _id, tasks: { $elemMatch: { location, status: JobTaskStatusEnum.DISPATCHED } } },
+        {
+          $addToSet: { [accepted ? 'tasks.$.received' : 'tasks.$.rejected']: slug },
+          $set: { 'tasks.$.updatedAt': new Date() },
+        },
+        { new: true, projection: { 'tasks.$': 1, resources: 1 } }
+      ).lean();
+      if (!job) {
+        return; // settled in the meantime;
+      }
+
+      const [task] = job.tasks;
+      const status = resolveTaskStatus(task, job.resources);
+      if (status !== task.status) {
+        await JobModel.updateOne({ _id, 'tasks.location': location }, { $set: { 'tasks.$.status': status } });
+        await JobModel.completeIfSettled(_id);
+      }
+    });
+  } catch (err) {
+    logger.error(err);
+  }
+};
+
 const getRouter = (basePath: string = '/', routePath: string = '/management/subscribe') => {
   const router: Router = Router();
   const path = urljoin(basePath, routePath);
@@ -50,14 +129,53 @@ const getRouter = (basePath: string = '/', routePath: string = '/management/subs
       logger.debug(`Received SNS message: ${snsMessage.location}`);
 
       let success: boolean = true;
+      let rejection: MetricDeadLetter = null;
       try {
         validateKeys(snsMessage, ['slug', 'location', 'metric']);
         const { slug, location, metric } = snsMessage;
 
-        const doc: Metric = { slug, location, metric };
-        await save(MetricModel, <any>doc);
+        const definition = await MetricDefinitionModel.findOne({ slug });
+        if (definition) {
+          const errors = validateMetricPayload(definition, metric);
+          if (errors.length) {
+            rejection = {
+              reason: MetricRejectionEnum.SCHEMA_VALIDATION,
+              validationErrors: errors,
+              definitionVersion: definition.version,
+            };
+          }
+        } else if (boolean(REQUIRE_METRIC_DEFINITIONS)) {
+          rejection = { reason: MetricRejectionEnum.UNKNOWN_DEFINITION };
+        }
+
+        if (!rejection) {
+          const doc: Metric = { slug, location, metric };
+          if (isNumber(snsMessage.version)) {
+            doc.locationVersion = snsMessage.version; // defaults to the current location version;
+          }
+          await save(MetricModel, <any>doc);
+        }
       } catch (err) {
+        rejection = {
+          reason:
+            err instanceof ParameterRequiredError
+              ? MetricRejectionEnum.INVALID_MESSAGE
+              : MetricRejectionEnum.SAVE_ERROR,
+          validationErrors: [{ pointer: '/', detail: err.message }],
+        };
+      }
+
+      if (rejection) {
         success = false;
+        logger.warn(`Rejected SNS message: ${snsMessage.slug} for: ${snsMessage.location} (${rejection.reason})`);
+
+        await saveDeadLetter({ ...rejection, ...pick(snsMessage, ['slug', 'location', 'metric']) });
+      }
+      if (snsMessage.location && snsMessage.slug) {
+        await updateOperations(snsMessage.location, snsMessage.slug, success, req.app.locals.redisClient).catch((err) =>
+          logger.error(err)
+        );
+        await updateJobTasks(snsMessage.location, snsMessage.slug, success);
       }
 
       const code = 200;
@@ -18,26 +18,133 @@
 */
 
 import ee from '@google/earthengine';
+import { boolean } from 'boolean';
 import { Request, Response, Router } from 'express';
 import asyncHandler from 'express-async-handler';
 import cacheControl from 'express-cache-controller';
 import { body, param, query } from 'express-validator';
-import { get, isEmpty } from 'lodash';
+import { get, isEmpty, merge } from 'lodash';
 import urljoin from 'url-join';
 
-import { API_MAP_TILES_TTL } from '../config';
+import { API_MAP_TILES_TTL, API_VECTOR_TILES_TTL, REDIS_VECTOR_TILES_CACHE_TTL } from '../config';
 import { ParameterRequiredError, RecordNotFound, TileGenerationError } from '../errors';
+import { MongooseQueryFilter, MongooseQueryParser } from '../helpers/mongoose';
 import { getLogger } from '../logging';
-import { LayerModel } from '../models';
-import { getById } from '../models/utils';
+import { AuthzGuards, AuthzRequest, guard } from '../middlewares/authz-guards';
+import { LayerModel, LocationModel, LocationTypeEnum } from '../models';
+import { getAllStream, getById, getByIds, withGeometryIntersection } from '../models/utils';
+import { compositeImageCollection } from '../services/earthengine';
+import { computeBboxPolygon } from '../services/geospatial';
+import { hash } from '../services/signature';
 import { existsMapTile, uploadMapTile } from '../services/storage-service';
+import { getTimeDimension, resolveDateRange, TimeParams } from '../services/time-dimension-service';
+import {
+  MVT_BUFFER,
+  MVT_CONTENT_TYPE,
+  tileToBbox,
+  VectorTileFeature,
+  VectorTileService,
+} from '../services/vector-tile-service';
 
-import { validate } from '.';
+import { queryParamGroup, validate } from '.';
 
 const logger = getLogger();
 
 // The zoom parameter is an integer between 0 (zoomed out) and 12 (zoomed in).
 const MAX_ZOOM_LEVEL = 12; // 4096 x 4096 tiles
+const MAX_VECTOR_ZOOM_LEVEL = 16;
+
+const LOCATIONS_TILESET = 'locations';
+
+// vector tilesets are served under their own prefix, apart from the layer slugs;
+const getVectorRouter = (basePath: string = '/', routePath: string = '/tiles/vector') => {
+  const router: Router = Router();
+  const path = urljoin(basePath, routePath);
+
+  const parser = new MongooseQueryParser();
+
+  router.get(
+    `${path}/${LOCATIONS_TILESET}/:z/:x/:y.mvt`,
+    validate([
+      param('z').trim().isInt({ min: 0, max: MAX_VECTOR_ZOOM_LEVEL }).toInt(),
+      param('x')
+        .trim()
+        .isInt({ min: 0, max: Math.pow(2, MAX_VECTOR_ZOOM_LEVEL) })
+        .toInt(),
+      param('y')
+        .trim()
+        .isInt({ min: 0, max: Math.pow(2, MAX_VECTOR_ZOOM_LEVEL) })
+        .toInt(),
+      query('type')
+        .optional()
+        .isString()
+        .custom((value: string) =>
+          queryParamGroup(value).every((t) => Object.values<string>(LocationTypeEnum).includes(t))
+        ),
+      query('published').optional().isBoolean(),
+      query('group').optional().isString().trim(),
+      query('v').optional().isString().trim(),
+    ]),
+    guard.enforcePrimaryGroup({ multiple: true }),
+    AuthzGuards.readLocationsGuard,
+    cacheControl({ private: true, maxAge: Number(API_VECTOR_TILES_TTL) }),
+    asyncHandler(async (req: AuthzRequest, res: Response) => {
+      const z = Number(req.params.z);
+      const x = Number(req.params.x);
+      const y = Number(req.params.y);
+
+      if (x >= Math.pow(2, z) || y >= Math.pow(2, z)) {
+        throw new RecordNotFound(`Tile ${z}/${x}/${y} out of range.`, 404);
+      }
+      const published = req.query.published !== undefined ? boolean(req.query.published) : true;
+      const types = queryParamGroup(<string>req.query.type).sort();
+
+      const predefined: MongooseQueryFilter[] = [
+        { key: 'organization', op: 'in', value: req.groups },
+        { key: 'published', op: '==', value: published },
+      ];
+      if (types.length) {
+        predefined.push({ key: 'type', op: 'in', value: types });
+      }
+      const queryOptions = withGeometryIntersection(parser.parse(null, { predefined }), [
+        computeBboxPolygon(tileToBbox(z, x, y, MVT_BUFFER)),
+      ]);
+
+      // tiles are identified by the filters and the versions of the intersecting locations;
+      const ids: string[] = [];
+      const members: string[] = [];
+      const versions = await getAllStream(LocationModel, merge({}, queryOptions, { select: { id: 1, version: 1 } }));
+      for await (const doc of versions) {
+        ids.push(doc.id);
+        members.push(`${doc.id}:${doc.version}`);
+      }
+      const tileHash = hash([[...req.groups].sort(), types, published, members]);
+
+      // the geometries are only loaded on cache miss, by the IDs of the intersecting locations;
+      const loadFeatures = async (): Promise<VectorTileFeature[]> => {
+        const features: VectorTileFeature[] = [];
+        const docs = await getByIds(LocationModel, ids, { select: { id: 1, slug: 1, name: 1, type: 1, geojson: 1 } });
+        docs.forEach((doc) => {
+          const geojson: any = doc.geojson;
+          const geometries = (geojson.type === 'FeatureCollection' ? geojson.features : [geojson])
+            .map((feature: any) => (feature.type === 'Feature' ? feature.geometry : feature))
+            .filter((geometry: any) => !!geometry);
+          const properties = { id: doc.id, slug: doc.slug, name: doc.name, type: doc.type };
+          geometries.forEach((geometry: any) => features.push({ geometry, properties }));
+        });
+        return features;
+      };
+
+      const vectorTileService = new VectorTileService(req.app.locals.redisClient, Number(REDIS_VECTOR_TILES_CACHE_TTL));
+      const tile = await vectorTileService.getTile(LOCATIONS_TILESET, tileHash, loadFeatures, z, x, y);
+
+      res.setHeader('Content-Type', MVT_CONTENT_TYPE);
+      res.status(200).send(tile);
+    })
+  );
+
+  return router;
+};
 
 const getRouter = (basePath: string = '/', routePath: string = '/tiles') => {
   const router: Router = Router();
@@ -57,6 +164,9 @@ const getRouter = (basePath: string = '/', routePath: string = '/tiles') => {
         .isInt({ min: 0, max: Math.pow(2, MAX_ZOOM_LEVEL) })
         .toInt(),
       query('v').optional().isString().trim(),
+      query('date').optional().isString().trim(),
+      query('start').optional().isString().trim(),
+      query('end').optional().isString().trim(),
     ]),
     cacheControl({ maxAge: Number(API_MAP_TILES_TTL) }),
     asyncHandler(async (req: Request, res: Response) => {
@@ -85,8 +195,19 @@ const getRouter = (basePath: string = '/', routePath: string = '/tiles') => {
       const styleType = get(source, 'styleType');
       const style = get(source, 'sldValue');
 
+      // time-enabled layers composite the images of a collection for the requested dates;
+      const timeDimension = getTimeDimension(layer.config);
+      const timeParams: TimeParams = {
+        date: <string>req.query.date,
+        start: <string>req.query.start,
+        end: <string>req.query.end,
+      };
+      const dateRange = timeDimension ? resolveDateRange(timeDimension, timeParams) : null;
+
       try {
-        let eeImage = ee.Image(assetId);
+        let eeImage = timeDimension
+          ? compositeImageCollection(assetId, dateRange, timeDimension.composite)
+          : ee.Image(assetId);
 
         if (styleType === 'sld' && style) {
           eeImage = eeImage.sldStyle(style);
@@ -102,10 +223,10 @@ const getRouter = (basePath: string = '/', routePath: string = '/tiles') => {
         const tileUrl = ee.data.getTileUrl(rawMap, x, y, z);
 
         let resourceURL: string;
-        const exists = await existsMapTile(layer.id, rawMap.mapid, z, x, y);
+        const exists = await existsMapTile(layer.id, rawMap.mapid, z, x, y, dateRange);
 
         if (!exists) {
-          const newTile = await uploadMapTile(tileUrl, layer.id, rawMap.mapid, z, x, y);
+          const newTile = await uploadMapTile(tileUrl, layer.id, rawMap.mapid, z, x, y, {}, dateRange);
           resourceURL = newTile.resourceURL;
         } else {
           resourceURL = exists.resourceURL;
@@ -125,4 +246,4 @@ const getRouter = (basePath: string = '/', routePath: string = '/tiles') => {
   return router;
 };
 
-export default { getRouter };
+export default { getRouter, getVectorRouter };
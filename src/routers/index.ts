@@ -18,7 +18,7 @@
 */
 
 import { Request } from 'express';
-import { validationResult } from 'express-validator';
+import { query, validationResult } from 'express-validator';
 import { get, isEmpty } from 'lodash';
 
 import { InvalidParameterError, ValidationError } from '../errors';
@@ -118,6 +118,48 @@ export const validateEmail = (email: string): string => {
   return email;
 };
 
+/**
+ * Coordinates validation, eg: "lon,lat".
+ * @param value
+ */
+export const validateLonLat = (value: string): boolean => {
+  const coords = queryParamGroup(value).map(Number);
+  if (coords.length !== 2 || coords.some(isNaN)) {
+    throw new Error('Invalid format, expected: lon,lat');
+  }
+  const [lon, lat] = coords;
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+    throw new Error('Coordinates out of range');
+  }
+  return true;
+};
+
+/**
+ * Bounding box validation, eg: "minx,miny,maxx,maxy".
+ * @param value
+ */
+export const validateBbox = (value: string): boolean => {
+  const coords = queryParamGroup(value).map(Number);
+  if (coords.length !== 4 || coords.some(isNaN)) {
+    throw new Error('Invalid format, expected: minx,miny,maxx,maxy');
+  }
+  const [minX, minY, maxX, maxY] = coords;
+  if (minX < -180 || maxX > 180 || minY < -90 || maxY > 90 || minX >= maxX || minY >= maxY) {
+    throw new Error('Bounding box out of range');
+  }
+  return true;
+};
+
+/**
+ * Spatial filter query parameters on location lists, see: parseSpatialFilters().
+ */
+export const spatialFilterValidations = [
+  query('bbox').optional().isString().custom(validateBbox),
+  query('point').optional().isString().custom(validateLonLat),
+  query('near').optional().isString().custom(validateLonLat),
+  query('radiusKm').if(query('near').exists()).isFloat({ gt: 0, max: 20000 }),
+];
+
 export const validate = (validations) => {
   return async (req, res, next) => {
     await Promise.all(validations.map((validation) => validation.run(req)));
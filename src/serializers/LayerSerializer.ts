@@ -34,6 +34,7 @@ export const LAYER_ATTRIBUTES: string[] = [
   'category',
   'config',
   'organization',
+  'publicResource',
   // computed;
   'published',
   'createdAt',
@@ -0,0 +1,68 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Serializer, SerializerOptions } from 'jsonapi-serializer';
+
+import { Location, LocationRevision } from '../models';
+
+import { PaginationLinks } from './index';
+import { LOCATION_ATTRIBUTES } from './LocationSerializer';
+
+export const LOCATION_REVISION_ATTRIBUTES: string[] = [
+  'id',
+  'version',
+  'name',
+  'description',
+  'geojson',
+  // computed;
+  'bbox2d',
+  'areaKm2',
+  '$diff',
+  // auto-generated;
+  'createdAt',
+  'updatedAt',
+  // relationships;
+  'location',
+];
+
+export const createSerializer = (
+  include: string[] = [],
+  pagination: PaginationLinks = {},
+  meta: any = {},
+  opts: SerializerOptions = {}
+): Serializer => {
+  return new Serializer('revision', {
+    attributes: LOCATION_REVISION_ATTRIBUTES,
+    keyForAttribute: (attribute: any) => {
+      return attribute;
+    },
+    location: {
+      included: include && include.includes('location'),
+      ref: (revision: LocationRevision, loc: Location) => {
+        if (loc) {
+          return typeof loc === 'string' ? loc : loc.id;
+        }
+      },
+      attributes: LOCATION_ATTRIBUTES,
+    },
+    topLevelLinks: pagination,
+    meta: meta,
+    ...opts,
+  } as any);
+};
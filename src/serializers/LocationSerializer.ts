@@ -35,6 +35,8 @@ export const LOCATION_ATTRIBUTES: string[] = [
   'featured',
   'organization',
   'publicResource',
+  'dissolve',
+  'isoCode',
   // computed;
   'bbox2d',
   'areaKm2',
@@ -43,11 +45,14 @@ export const LOCATION_ATTRIBUTES: string[] = [
   'updatedAt',
   'version',
   // relationships;
+  'parent',
   'locations',
   'intersections',
   'metrics',
   // extra;
   '$searchHint',
+  '$intersection',
+  '$containment',
 ];
 
 export const createSerializer = (
@@ -61,6 +66,16 @@ export const createSerializer = (
     keyForAttribute: (attribute: any) => {
       return attribute;
     },
+    parent: {
+      included: include && include.includes('parent'),
+      ref: (loc: Location, parent: Location) => {
+        if (parent) {
+          return typeof parent === 'string' ? parent : parent.id;
+        }
+      },
+      attributes: LOCATION_ATTRIBUTES,
+      pluralizeType: false,
+    },
     locations: {
       included: include && include.includes('locations'),
       ref: (parent: Location, location: Location) => {
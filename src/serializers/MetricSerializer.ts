@@ -28,12 +28,18 @@ export const METRIC_ATTRIBUTES: string[] = [
   'id',
   'slug',
   'metric',
+  'locationVersion',
+  'stale',
   // computed;
   'createdAt',
   'updatedAt',
   'version',
   // relationships;
   'location',
+  // extra;
+  '$diff',
+  '$rank',
+  '$value',
 ];
 
 export const createSerializer = (
@@ -18,9 +18,10 @@
 */
 
 import ee from '@google/earthengine';
+import axios from 'axios';
 import makeError from 'make-error';
 
-import { GOOGLE_SERVICE_ACCOUNT } from '../config';
+import { GOOGLE_EXPORT_BUCKET, GOOGLE_SERVICE_ACCOUNT } from '../config';
 import { ExposedError } from '../errors';
 import { getLogger } from '../logging';
 
@@ -36,6 +37,60 @@ export enum ExportType {
   THUMBNAIL = 'thumbnail',
 }
 
+export enum ReducerType {
+  MEAN = 'mean',
+  SUM = 'sum',
+  HISTOGRAM = 'histogram',
+  PERCENTILES = 'percentiles',
+}
+
+export enum CompositeType {
+  MOSAIC = 'mosaic',
+  MEDIAN = 'median',
+  MEAN = 'mean',
+  MIN = 'min',
+  MAX = 'max',
+}
+
+export enum ExportFileFormat {
+  GEOTIFF = 'geotiff',
+  COG = 'cog', // cloud optimized GeoTIFF;
+  TFRECORD = 'tfrecord',
+}
+
+export enum ExportTaskState {
+  UNSUBMITTED = 'UNSUBMITTED',
+  READY = 'READY',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  CANCEL_REQUESTED = 'CANCEL_REQUESTED',
+  CANCELLED = 'CANCELLED',
+}
+
+export interface ImageExportOptions {
+  format: ExportFileFormat;
+  scale?: number; // meters, defaults to the native scale of the image;
+  crs?: string; // eg: EPSG:4326, defaults to the native projection of the image;
+}
+
+export interface ExportedFile {
+  name: string;
+  url: string;
+  headers: { [key: string]: string };
+}
+
+export interface DateRange {
+  start: string; // inclusive;
+  end: string; // exclusive;
+}
+
+export interface ReduceRegionOptions {
+  reducers: ReducerType[];
+  percentiles?: number[];
+  scale?: number; // meters, defaults to the native scale of the image;
+}
+
 /**
  * Get a Download URL for the image, which always downloads a zipped GeoTIFF.
  * @param assetId
@@ -124,6 +179,192 @@ export const exportImageToThumbnailURL = async (
     });
 };
 
+/**
+ * Start a batch task exporting the image clipped to the region into Cloud Storage.
+ * Large regions are split into multiple files by EE.
+ * @param assetId
+ * @param geojson
+ * @param fileNamePrefix: also used as task description;
+ * @param options
+ * @param bucket
+ * @return the ID of the export task;
+ */
+export const startImageExport = async (
+  assetId: string,
+  geojson: any,
+  fileNamePrefix: string,
+  options: ImageExportOptions,
+  bucket: string = GOOGLE_EXPORT_BUCKET
+): Promise<string> => {
+  const geometryCollection = geojsonToGeometryCollection(geojson);
+  const geometry = ee.Geometry(geometryCollection);
+
+  const eeImage = ee.Image(assetId).clip(geometry);
+
+  logger.debug('[startImageExport] exporting assetId: %s to: %s', assetId, fileNamePrefix);
+
+  const task = ee.batch.Export.image.toCloudStorage({
+    image: eeImage,
+    description: fileNamePrefix.replace(/[^\w-]/g, '_').substr(0, 100), // allowed task description characters;
+    bucket,
+    fileNamePrefix,
+    region: geometry,
+    scale: options.scale,
+    crs: options.crs,
+    maxPixels: 1e13,
+    fileFormat: options.format === ExportFileFormat.TFRECORD ? 'TFRecord' : 'GeoTIFF',
+    formatOptions: options.format === ExportFileFormat.COG ? { cloudOptimized: true } : undefined,
+  });
+  return new Promise((resolve, reject) =>
+    task.start(
+      () => resolve(task.id),
+      (err) => reject(err)
+    )
+  )
+    .then((taskId: string) => {
+      logger.debug('[startImageExport] started task for %s: %s', assetId, taskId);
+      return taskId;
+    })
+    .catch((err) => {
+      logger.error(err);
+      throw new ExportError('Could not start export for image', 400);
+    });
+};
+
+/**
+ * Get the state of a batch export task.
+ * @param taskId
+ */
+export const getImageExportStatus = async (taskId: string): Promise<{ state: ExportTaskState; error?: string }> => {
+  return new Promise((resolve, reject) =>
+    ee.data.getTaskStatus(taskId, (statuses, err) => {
+      if (err) {
+        reject(err);
+      }
+      resolve(statuses);
+    })
+  )
+    .then((statuses: any[]) => {
+      const [status] = statuses || [];
+      return { state: status && status.state, error: status && status.error_message };
+    })
+    .catch((err) => {
+      logger.error(err);
+      throw new EarthEngineError(`Could not retrieve status for task: ${taskId}`);
+    });
+};
+
+/**
+ * List the files exported into Cloud Storage, authorized with the EE credentials.
+ * @param fileNamePrefix
+ * @param bucket
+ */
+export const listExportedFiles = async (
+  fileNamePrefix: string,
+  bucket: string = GOOGLE_EXPORT_BUCKET
+): Promise<ExportedFile[]> => {
+  const baseUrl = `https://storage.googleapis.com/storage/v1/b/${encodeURIComponent(bucket)}/o`;
+  const headers = { Authorization: ee.data.getAuthToken() };
+  try {
+    const response = await axios.get(baseUrl, { params: { prefix: fileNamePrefix }, headers });
+
+    return (response.data.items || []).map((item) => ({
+      name: item.name,
+      url: `${baseUrl}/${encodeURIComponent(item.name)}?alt=media`,
+      headers,
+    }));
+  } catch (err) {
+    logger.error(err);
+    throw new EarthEngineError(`Could not list exported files: ${fileNamePrefix}`);
+  }
+};
+
+/**
+ * Create a single EE reducer from the requested reducer types.
+ * Combined reducers share their inputs, outputs are prefixed by band name.
+ * @param reducers
+ * @param percentiles
+ */
+const createReducer = (reducers: ReducerType[], percentiles: number[] = [25, 50, 75]) =>
+  reducers
+    .map((type) => {
+      switch (type) {
+        case ReducerType.MEAN:
+          return ee.Reducer.mean();
+        case ReducerType.SUM:
+          return ee.Reducer.sum();
+        case ReducerType.HISTOGRAM:
+          return ee.Reducer.histogram();
+        case ReducerType.PERCENTILES:
+          return ee.Reducer.percentile(percentiles);
+      }
+    })
+    .reduce((acc, reducer) => acc.combine({ reducer2: reducer, sharedInputs: true }));
+
+/**
+ * Apply the reducers to all the pixels of the image within the region.
+ * @param assetId
+ * @param geojson
+ * @param options
+ */
+export const reduceImageRegion = async (
+  assetId: string,
+  geojson: any,
+  options: ReduceRegionOptions
+): Promise<{ [key: string]: any }> => {
+  const eeImage = ee.Image(assetId);
+
+  const geometryCollection = geojsonToGeometryCollection(geojson);
+  const geometry = ee.Geometry(geometryCollection);
+
+  logger.debug('[reduceImageRegion] reducing assetId: %s (%s)', assetId, options.reducers.join(','));
+
+  const opts = {
+    reducer: createReducer(options.reducers, options.percentiles),
+    geometry,
+    scale: options.scale,
+    bestEffort: true, // use a larger scale when the region contains too many pixels;
+    maxPixels: 1e9,
+  };
+  return new Promise((resolve, reject) =>
+    eeImage.reduceRegion(opts).evaluate((result, err) => {
+      if (err) {
+        reject(err);
+      }
+      resolve(result);
+    })
+  )
+    .then((result: { [key: string]: any }) => {
+      logger.debug('[reduceImageRegion] reduced region for %s', assetId);
+      return result;
+    })
+    .catch((err) => {
+      logger.error(err);
+      throw new ExportError('Could not compute statistics for image', 413);
+    });
+};
+
+/**
+ * Filter the images of a collection by date & composite the matching images into a single image.
+ * @param assetId
+ * @param range
+ * @param composite
+ */
+export const compositeImageCollection = (
+  assetId: string,
+  range?: DateRange,
+  composite: CompositeType = CompositeType.MOSAIC
+): any => {
+  let eeCollection = ee.ImageCollection(assetId);
+
+  if (range) {
+    eeCollection = eeCollection.filterDate(range.start, range.end);
+  }
+  logger.debug('[compositeImageCollection] %s composite for assetId: %s', composite, assetId);
+
+  return eeCollection[composite]();
+};
+
 /**
  * Initialize the EE library.
  * Authenticate using a service account.
@@ -0,0 +1,94 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { EXPORT_URL_TTL } from '../config';
+import { forEachAsync } from '../helpers/util';
+import { getLogger } from '../logging';
+import { ExportJobDocument, ExportJobStatusEnum } from '../models/ExportJobModel';
+
+import { ExportTaskState, getImageExportStatus, listExportedFiles } from './earthengine';
+import { getExportFileURL, uploadExportFile } from './storage-service';
+
+const logger = getLogger('export-job-service');
+
+/**
+ * Map the state of an EE batch task to the status of the export job.
+ * @param state
+ */
+export const resolveExportJobStatus = (state: ExportTaskState): ExportJobStatusEnum => {
+  switch (state) {
+    case ExportTaskState.COMPLETED:
+      return ExportJobStatusEnum.COMPLETED;
+    case ExportTaskState.FAILED:
+    case ExportTaskState.CANCEL_REQUESTED:
+    case ExportTaskState.CANCELLED:
+      return ExportJobStatusEnum.FAILED;
+    default:
+      return ExportJobStatusEnum.RUNNING;
+  }
+};
+
+/**
+ * Cloud Storage prefix of the files exported for a job.
+ * @param jobId
+ */
+export const getExportFileNamePrefix = (jobId: string): string => `exports/${jobId}/export`;
+
+/**
+ * Update a running export job from the state of its EE task.
+ * The exported files are copied into private storage once the task completes.
+ * @param job
+ */
+export const syncExportJob = async (job: ExportJobDocument): Promise<ExportJobDocument> => {
+  const { state, error } = await getImageExportStatus(job.taskId);
+
+  const status = resolveExportJobStatus(state);
+  if (status === job.status) {
+    return job;
+  }
+  logger.debug('[syncExportJob] export task: %s for job: %s is: %s', job.taskId, job.id, state);
+
+  if (status === ExportJobStatusEnum.COMPLETED) {
+    const files = await listExportedFiles(getExportFileNamePrefix(job.id));
+
+    job.files = await forEachAsync(files, async (file) =>
+      uploadExportFile(file.url, file.headers, job.id, file.name.split('/').pop())
+    );
+  } else if (status === ExportJobStatusEnum.FAILED) {
+    job.error = error || `Export task ${String(state).toLowerCase()}`;
+  }
+  job.status = status;
+  job.completedAt = new Date();
+
+  return job.save();
+};
+
+/**
+ * Sign temporary download URLs for the files of a completed export job.
+ * @param job
+ */
+export const getExportJobDownloadURLs = async (job: {
+  status?: ExportJobStatusEnum;
+  files?: string[];
+}): Promise<string[]> => {
+  if (job.status !== ExportJobStatusEnum.COMPLETED) {
+    return [];
+  }
+  return forEachAsync(job.files || [], async (key: string) => getExportFileURL(key, Number(EXPORT_URL_TTL)));
+};
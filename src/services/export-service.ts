@@ -0,0 +1,275 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { get, pick } from 'lodash';
+import { Transform } from 'stream';
+
+import { ParameterRequiredError } from '../errors';
+import { toCSVRow } from '../helpers/csv';
+import { flattenObject } from '../helpers/util';
+import { getLogger } from '../logging';
+import { LocationTypeEnum } from '../models';
+import { computeCollectionGeoJSONMw } from '../models/middlewares/locations';
+
+import { geojsonToGeometry, geometryToWKT } from './geospatial';
+
+const logger = getLogger('export-service');
+
+export enum ExportFormatEnum {
+  GEOJSON = 'geojson',
+  JSON = 'json',
+  NDJSON = 'ndjson',
+  CSV = 'csv',
+}
+
+export const EXPORT_CONTENT_TYPES: { [key in ExportFormatEnum]: string } = {
+  [ExportFormatEnum.GEOJSON]: 'application/geo+json',
+  [ExportFormatEnum.JSON]: 'application/json',
+  [ExportFormatEnum.NDJSON]: 'application/x-ndjson',
+  [ExportFormatEnum.CSV]: 'text/csv',
+};
+
+export const LOCATION_EXPORT_FORMATS: ExportFormatEnum[] = [
+  ExportFormatEnum.GEOJSON,
+  ExportFormatEnum.NDJSON,
+  ExportFormatEnum.CSV,
+];
+
+export const METRIC_EXPORT_FORMATS: ExportFormatEnum[] = [
+  ExportFormatEnum.JSON,
+  ExportFormatEnum.NDJSON,
+  ExportFormatEnum.CSV,
+];
+
+export const LOCATION_EXPORT_COLUMNS: string[] = [
+  'id',
+  'slug',
+  'name',
+  'description',
+  'type',
+  'organization',
+  'published',
+  'publicResource',
+  'featured',
+  'version',
+  'createdAt',
+  'updatedAt',
+  'bbox2d',
+  'areaKm2',
+  'centroid',
+  'geometry',
+];
+
+export const METRIC_EXPORT_COLUMNS: string[] = [
+  'id',
+  'slug',
+  'version',
+  'locationVersion',
+  'stale',
+  'createdAt',
+  'updatedAt',
+  'location.id',
+  'location.slug',
+  'location.name',
+  'location.version',
+];
+
+/**
+ * Formats documents as text chunks for a specific export format.
+ */
+interface ExportFormatter {
+  header?: string;
+  separator?: string;
+  footer?: string;
+  format: (doc: any) => Promise<string>;
+}
+
+/**
+ * Create a transform stream converting documents into text chunks.
+ * @param formatter
+ */
+const createExportTransform = (formatter: ExportFormatter): Transform => {
+  const { header = '', separator = '', footer = '', format } = formatter;
+
+  let count = 0;
+  return new Transform({
+    writableObjectMode: true,
+    transform(doc: any, encoding: string, callback) {
+      format(doc)
+        .then((chunk) => {
+          const prefix = count === 0 ? header : separator;
+          count++;
+          callback(null, prefix + chunk);
+        })
+        .catch((err) => callback(err));
+    },
+    flush(callback) {
+      logger.debug('[createExportTransform] exported %s document(s)', count);
+      callback(null, (count === 0 ? header : '') + footer);
+    },
+  });
+};
+
+/**
+ * Filter export columns based on the select (inclusion or exclusion) query option.
+ * The "geometry" column is selected by the "geojson" field.
+ * @param columns
+ * @param select
+ */
+export const selectColumns = (columns: string[], select: { [key: string]: 1 | 0 } = {}): string[] => {
+  const fieldOf = (column: string) => (column === 'geometry' ? 'geojson' : column);
+  const included = Object.keys(select).filter((key) => select[key] === 1);
+  const excluded = Object.keys(select).filter((key) => select[key] === 0);
+
+  return columns.filter((column) => {
+    if (column === 'id') {
+      return true; // always included;
+    }
+    if (included.length) {
+      return included.includes(fieldOf(column));
+    }
+    return !excluded.includes(fieldOf(column));
+  });
+};
+
+/**
+ * Convert a location document into a GeoJSON Feature.
+ * Collection geometries are computed from nested references.
+ * @param doc
+ */
+const locationToFeature = async (doc: any): Promise<any> => {
+  if (doc.type === LocationTypeEnum.COLLECTION) {
+    await computeCollectionGeoJSONMw()([doc]);
+  }
+  const { geojson, metrics, ...properties } = doc.toObject();
+
+  return {
+    type: 'Feature',
+    id: properties.id,
+    properties,
+    geometry: geojson ? geojsonToGeometry(geojson) : null,
+  };
+};
+
+/**
+ * Create a transform stream converting location documents into the specified export format.
+ * @param format
+ * @param select
+ */
+export const createLocationExportTransform = (
+  format: ExportFormatEnum,
+  select: { [key: string]: 1 | 0 } = {}
+): Transform => {
+  switch (format) {
+    case ExportFormatEnum.GEOJSON:
+      return createExportTransform({
+        header: '{"type":"FeatureCollection","features":[',
+        separator: ',',
+        footer: ']}',
+        format: async (doc) => JSON.stringify(await locationToFeature(doc)),
+      });
+    case ExportFormatEnum.NDJSON:
+      return createExportTransform({
+        format: async (doc) => JSON.stringify(await locationToFeature(doc)) + '\n',
+      });
+    case ExportFormatEnum.CSV: {
+      const columns = selectColumns(LOCATION_EXPORT_COLUMNS, select);
+      return createExportTransform({
+        header: toCSVRow(columns),
+        format: async (doc) => {
+          const { properties, geometry } = await locationToFeature(doc);
+          const values = columns.map((column) => {
+            switch (column) {
+              case 'geometry':
+                return geometry ? geometryToWKT(geometry) : null;
+              case 'centroid':
+                return properties.centroid ? geometryToWKT(properties.centroid.geometry) : null;
+              default:
+                return properties[column];
+            }
+          });
+          return toCSVRow(values);
+        },
+      });
+    }
+  }
+};
+
+/**
+ * Convert a metric document into a flat row, nested metric fields are keyed by their dotted paths.
+ * Only the metric fields under the selected paths are kept, when specified.
+ * @param doc
+ * @param fields: dotted paths inside the metric object;
+ */
+export const metricToRow = (doc: any, fields: string[] = []): { [column: string]: any } => {
+  const { metric, location, ...properties } = doc.toObject ? doc.toObject() : doc;
+  const parent = location && typeof location === 'object' ? location : { id: location };
+
+  const values = flattenObject(metric || {}, 'metric');
+  const selected = Object.keys(values).filter(
+    (key) => !fields.length || fields.some((field) => key === `metric.${field}` || key.startsWith(`metric.${field}.`))
+  );
+
+  return {
+    ...pick(properties, METRIC_EXPORT_COLUMNS),
+    'location.id': parent.id,
+    'location.slug': parent.slug,
+    'location.name': parent.name,
+    'location.version': parent.version,
+    ...pick(values, selected),
+  };
+};
+
+/**
+ * Create a transform stream converting metric documents into the specified export format.
+ * CSV columns are taken from the selected paths, required since metrics of different shapes share the header.
+ * @param format
+ * @param fields: dotted paths inside the metric object;
+ */
+export const createMetricExportTransform = (format: ExportFormatEnum, fields: string[] = []): Transform => {
+  switch (format) {
+    case ExportFormatEnum.JSON:
+      return createExportTransform({
+        header: '[',
+        separator: ',',
+        footer: ']',
+        format: async (doc) => JSON.stringify(metricToRow(doc, fields)),
+      });
+    case ExportFormatEnum.NDJSON:
+      return createExportTransform({
+        format: async (doc) => JSON.stringify(metricToRow(doc, fields)) + '\n',
+      });
+    case ExportFormatEnum.CSV: {
+      if (!fields.length) {
+        throw new ParameterRequiredError('Required parameter "fields" missing for the CSV format', 400);
+      }
+      const columns = METRIC_EXPORT_COLUMNS.concat(fields.map((field) => `metric.${field}`));
+      return createExportTransform({
+        header: toCSVRow(columns),
+        format: async (doc) => {
+          const obj = doc.toObject ? doc.toObject() : doc;
+          const row = metricToRow(obj);
+          // selected paths might point to nested objects;
+          const values = columns.map((column) => (column.startsWith('metric.') ? get(obj, column) : row[column]));
+          return toCSVRow(values);
+        },
+      });
+    }
+  }
+};
@@ -37,11 +37,15 @@ interface StreamResponse {
  * Provide the response.data as a readable stream together
  * with the Content-Type headers.
  */
-export const fetchURLToStream = async (url: string): Promise<StreamResponse> => {
+export const fetchURLToStream = async (
+  url: string,
+  headers: { [key: string]: string } = {}
+): Promise<StreamResponse> => {
   try {
     const response = await axios({
       method: 'get',
       url: url,
+      headers: headers,
       responseType: 'stream',
     });
 
@@ -0,0 +1,177 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import * as turf from '@turf/turf';
+import { Redis } from 'ioredis';
+import { get, isNil } from 'lodash';
+
+import { getLogger } from '../logging';
+import { LocationTypeEnum } from '../models';
+
+import { WithCache } from './base/WithCache';
+import {
+  computeBboxPolygon,
+  computeCirclePolygon,
+  GeometryRepair,
+  normalizeGeojson,
+  repairGeojson,
+  simplifyGeojson,
+  SimplifyOptions,
+  truncateGeojson,
+} from './geospatial';
+
+const logger = getLogger('geometry-service');
+
+enum CacheKeys {
+  LOCATION_GEOMETRY = 'LOCATION_GEOMETRY',
+}
+
+export interface GeometryOptions {
+  simplify?: SimplifyOptions;
+  precision?: number;
+}
+
+/**
+ * Extract the geometry options from the request query parameters.
+ *
+ * Supported parameters: simplify[tolerance], simplify[vertices], precision.
+ * @param query
+ */
+export const parseGeometryOptions = (query: any): GeometryOptions => {
+  const tolerance = get(query, 'simplify.tolerance');
+  const vertices = get(query, 'simplify.vertices');
+  const precision = get(query, 'precision');
+
+  const options: GeometryOptions = {};
+  if (!isNil(vertices)) {
+    options.simplify = { vertices: Number(vertices) };
+  } else if (!isNil(tolerance)) {
+    options.simplify = { tolerance: Number(tolerance) };
+  }
+  if (!isNil(precision)) {
+    options.precision = Number(precision);
+  }
+  return options;
+};
+
+/**
+ * Extract the spatial filter geometries from the request query parameters.
+ *
+ * Supported parameters: bbox=minx,miny,maxx,maxy, point=lon,lat, near=lon,lat&radiusKm=
+ * @param query
+ */
+export const parseSpatialFilters = (query: any): turf.Geometries[] => {
+  const parseNumbers = (value: string): number[] => value.split(',').map(Number);
+
+  const geometries: turf.Geometries[] = [];
+
+  const bbox = get(query, 'bbox');
+  if (bbox) {
+    geometries.push(computeBboxPolygon(<turf.BBox>parseNumbers(bbox)));
+  }
+  const point = get(query, 'point');
+  if (point) {
+    geometries.push(turf.point(parseNumbers(point)).geometry);
+  }
+  const near = get(query, 'near');
+  if (near) {
+    geometries.push(computeCirclePolygon(parseNumbers(near), Number(get(query, 'radiusKm'))));
+  }
+  return geometries;
+};
+
+/**
+ * Repair the geometries of a location GeoJSON object before save.
+ * Objects which can't be normalized are returned unchanged, and rejected by the model validation.
+ * @param geojson
+ */
+export const repairLocationGeojson = (geojson: any): { geojson: any; repairs: GeometryRepair[] } => {
+  const normalized = geojson && normalizeGeojson(geojson, false);
+  if (!normalized) {
+    return { geojson, repairs: [] };
+  }
+  return repairGeojson(normalized);
+};
+
+export class LocationGeometryService extends WithCache {
+  constructor(cache?: Redis, cacheTTL?: number) {
+    super(cache, cacheTTL);
+  }
+
+  /**
+   * Simplify and/or reduce the coordinate precision of the location GeoJSON.
+   *
+   * Results are cached by location id & version, collections are excluded from
+   * caching since their geometry is computed from nested references.
+   * @param doc
+   * @param options
+   */
+  async transform<T extends { id?: any; type?: string; version?: number; geojson?: any }>(
+    doc: T,
+    options: GeometryOptions
+  ): Promise<T> {
+    const { simplify, precision } = options;
+    if (!doc || !doc.geojson || (!simplify && isNil(precision))) {
+      return doc;
+    }
+    const isCacheable = doc.type !== LocationTypeEnum.COLLECTION && !isNil(doc.version);
+    const cacheKey = this.mkCacheKey(
+      CacheKeys.LOCATION_GEOMETRY,
+      doc.id,
+      doc.version,
+      simplify?.tolerance,
+      simplify?.vertices,
+      precision
+    );
+
+    let geojson = isCacheable ? await this.fromCache(cacheKey) : null;
+    if (!geojson) {
+      geojson = doc.geojson.toObject ? doc.geojson.toObject() : doc.geojson;
+      if (simplify) {
+        geojson = simplifyGeojson(geojson, simplify);
+      }
+      if (!isNil(precision)) {
+        geojson = truncateGeojson(geojson, precision);
+      }
+      logger.debug('[transform] computed geometry for: %s', doc.id);
+
+      if (isCacheable) {
+        await this.toCache(cacheKey, geojson);
+      }
+    }
+    doc.geojson = geojson;
+
+    return doc;
+  }
+
+  /**
+   * Apply the geometry options on multiple locations.
+   * @param docs
+   * @param options
+   */
+  async transformAll<T extends { id?: any; type?: string; version?: number; geojson?: any }>(
+    docs: T[],
+    options: GeometryOptions
+  ): Promise<T[]> {
+    for (const doc of docs) {
+      await this.transform(doc, options);
+    }
+    return docs;
+  }
+}
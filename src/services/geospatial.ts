@@ -20,7 +20,10 @@
 import { merge } from '@mapbox/geojson-merge';
 import normalize from '@mapbox/geojson-normalize';
 import * as turf from '@turf/turf';
+import { cloneDeep, flatMap, isEqual, sumBy } from 'lodash';
 import makeError from 'make-error';
+import { feature } from 'topojson-client';
+import { topology } from 'topojson-server';
 
 import { getLogger } from '../logging';
 
@@ -66,6 +69,26 @@ export const computeShapeCentroid = (
   return null;
 };
 
+/**
+ * Takes one or more features and returns a point guaranteed to be on the surface of the shape.
+ * @param geojson: input GeoJSON feature(s)
+ * @param raiseError
+ */
+export const computePointOnSurface = (
+  geojson: turf.AllGeoJSON,
+  raiseError: boolean = true
+): turf.Feature<turf.Point> => {
+  try {
+    return turf.pointOnFeature(geojson);
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute point on surface.');
+    }
+  }
+  return null;
+};
+
 /**
  * Takes one or more features and returns their area in square kilometers.
  * @param geojson: input GeoJSON feature(s)
@@ -88,6 +111,68 @@ export const computeAreaKm2 = (geojson: turf.AllGeoJSON, raiseError: boolean = t
   return null;
 };
 
+/**
+ * Takes one or more features and returns the length of their polygon rings in kilometers.
+ * Non-polygonal geometries don't contribute to the perimeter.
+ * @param geojson: input GeoJSON feature(s)
+ * @param raiseError
+ * @return number: perimeter in kilometers
+ */
+export const computePerimeterKm = (geojson: turf.AllGeoJSON, raiseError: boolean = true): number => {
+  try {
+    return sumBy(
+      turf.flatten(geojson).features.filter((feat) => turf.getType(feat) === 'Polygon'),
+      (feat: turf.Feature<turf.Polygon>) => turf.length(turf.polygonToLine(feat), { units: 'kilometers' })
+    );
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute perimeter/km.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Takes one or more features and returns the number of their vertices.
+ * @param geojson: input GeoJSON feature(s)
+ * @param raiseError
+ */
+export const computeVertexCount = (geojson: turf.AllGeoJSON, raiseError: boolean = true): number => {
+  try {
+    return turf.coordAll(geojson).length;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute vertex count.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Takes one or more features and returns their Polsby-Popper compactness score,
+ * ranging from 0 (least compact) to 1 (a circle).
+ * @param geojson: input GeoJSON feature(s)
+ * @param raiseError
+ */
+export const computeCompactness = (geojson: turf.AllGeoJSON, raiseError: boolean = true): number => {
+  try {
+    const area = computeAreaKm2(geojson);
+    const perimeter = computePerimeterKm(geojson);
+    if (perimeter > 0) {
+      return (4 * Math.PI * area) / Math.pow(perimeter, 2);
+    }
+    return 0;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute compactness.');
+    }
+  }
+  return null;
+};
+
 /**
  * Flatten any GeoJSON object into a single GeometryCollection.
  * @param geojson: any valid GeoJSON Object
@@ -146,3 +231,595 @@ export const mergeGeojson = (geojsonArray: turf.AllGeoJSON[], raiseError: boolea
     }
   }
 };
+
+/**
+ * Dissolve the polygons of a FeatureCollection into a single (Multi)Polygon feature.
+ * Overlapping polygons are merged, non-polygonal features are kept as they are.
+ * @param geojson: input GeoJSON FeatureCollection
+ * @param raiseError
+ */
+export const dissolveGeojson = (
+  geojson: turf.FeatureCollection,
+  raiseError: boolean = true
+): turf.FeatureCollection => {
+  try {
+    const features: turf.Feature<any>[] = turf.flatten(<any>geojson).features;
+    const polygons = features.filter((feat) => turf.getType(feat) === 'Polygon');
+    const others = features.filter((feat) => turf.getType(feat) !== 'Polygon');
+
+    if (!polygons.length) {
+      return geojson;
+    }
+    const dissolved = polygons.length > 1 ? turf.union(...polygons) : polygons[0];
+    dissolved.properties = {};
+
+    return turf.featureCollection([dissolved, ...others]);
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not dissolve GeoJSON object.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Combine any GeoJSON object into a single geometry.
+ * Returns the geometry itself when a single geometry is found, a GeometryCollection otherwise.
+ * @param geojson: any valid GeoJSON Object
+ * @param raiseError
+ */
+export const geojsonToGeometry = (geojson: turf.AllGeoJSON, raiseError: boolean = true): turf.Geometries => {
+  try {
+    const collection = geojsonToGeometryCollection(geojson);
+    if (collection.geometries.length === 1) {
+      return <turf.Geometries>collection.geometries[0];
+    }
+    return <any>collection;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not combine GeoJSON object into a single geometry.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Convert a GeoJSON geometry into its Well-Known Text (WKT) representation.
+ * @param geometry: GeoJSON geometry object
+ * @param raiseError
+ */
+export const geometryToWKT = (
+  geometry: turf.Geometries | turf.GeometryCollection,
+  raiseError: boolean = true
+): string => {
+  const position = (coords: number[]) => coords.join(' ');
+  const ring = (coords: number[][]) => `(${coords.map(position).join(', ')})`;
+  const polygon = (coords: number[][][]) => `(${coords.map(ring).join(', ')})`;
+
+  try {
+    switch (geometry.type) {
+      case 'Point':
+        return `POINT (${position(geometry.coordinates)})`;
+      case 'MultiPoint':
+        return `MULTIPOINT ${ring(geometry.coordinates)}`;
+      case 'LineString':
+        return `LINESTRING ${ring(geometry.coordinates)}`;
+      case 'MultiLineString':
+        return `MULTILINESTRING ${polygon(geometry.coordinates)}`;
+      case 'Polygon':
+        return `POLYGON ${polygon(geometry.coordinates)}`;
+      case 'MultiPolygon':
+        return `MULTIPOLYGON (${geometry.coordinates.map(polygon).join(', ')})`;
+      case 'GeometryCollection':
+        if (!geometry.geometries.length) {
+          return 'GEOMETRYCOLLECTION EMPTY';
+        }
+        return `GEOMETRYCOLLECTION (${geometry.geometries.map((g) => geometryToWKT(<any>g)).join(', ')})`;
+      default:
+        throw new Error(`Unsupported geometry type: ${(<any>geometry).type}`);
+    }
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not convert geometry to WKT.');
+    }
+  }
+  return null;
+};
+
+export interface SimplifyOptions {
+  tolerance?: number; // simplification tolerance, in degrees;
+  vertices?: number; // target vertex count;
+}
+
+/**
+ * Simplify a FeatureCollection while preserving the topology shared between features.
+ *
+ * Features are converted into a topology, arcs (shared borders) are simplified using the
+ * Ramer-Douglas-Peucker algorithm, so adjacent features keep their common borders.
+ * When a target vertex count is specified, the tolerance is computed using a binary search,
+ * the vertex count applies to the arcs of the topology (shared vertices are counted once).
+ * @param geojson: input GeoJSON FeatureCollection
+ * @param options: simplification tolerance or target vertex count
+ * @param raiseError
+ */
+export const simplifyGeojson = (
+  geojson: turf.FeatureCollection,
+  options: SimplifyOptions,
+  raiseError: boolean = true
+): turf.FeatureCollection => {
+  try {
+    const topo = topology({ collection: cloneDeep(geojson) });
+    const arcs: turf.Position[][] = topo.arcs;
+
+    const simplifyArcs = (tolerance: number) => arcs.map((arc) => simplifyArc(arc, tolerance));
+    const countArcs = (arcsArray: turf.Position[][]) => sumBy(arcsArray, (arc) => arc.length);
+
+    let simplified: turf.Position[][];
+    if (options.vertices) {
+      simplified = arcs;
+      if (countArcs(arcs) > options.vertices) {
+        const [minX, minY, maxX, maxY] = turf.bbox(geojson);
+
+        let [low, high] = [0, Math.max(maxX - minX, maxY - minY)];
+        simplified = simplifyArcs(high);
+        for (let i = 0; i < 24; i++) {
+          const tolerance = (low + high) / 2;
+          const candidate = simplifyArcs(tolerance);
+          if (countArcs(candidate) <= options.vertices) {
+            [simplified, high] = [candidate, tolerance];
+          } else {
+            low = tolerance;
+          }
+        }
+      }
+    } else {
+      simplified = simplifyArcs(options.tolerance);
+    }
+
+    const result: turf.FeatureCollection = feature({ ...topo, arcs: simplified }, topo.objects.collection);
+    result.features = result.features.map((feat, index) => {
+      const geometry = removeDegenerateRings(<turf.Geometries>feat.geometry);
+      // fallback to the original geometry when collapsed;
+      return { ...feat, geometry: geometry || geojson.features[index].geometry };
+    });
+    return result;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not simplify GeoJSON object.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Simplify a single topology arc, keeping closed arcs as valid rings.
+ * @param arc
+ * @param tolerance
+ */
+const simplifyArc = (arc: turf.Position[], tolerance: number): turf.Position[] => {
+  if (!tolerance || arc.length <= 2) {
+    return arc;
+  }
+  const isRing = isEqual(arc[0], arc[arc.length - 1]);
+
+  const coordinates = turf.getCoords(turf.simplify(turf.lineString(arc), { tolerance, highQuality: true }));
+  if (isRing && coordinates.length < 4 && arc.length > 4) {
+    // keep collapsed rings as minimal rings;
+    const step = Math.floor((arc.length - 1) / 3);
+    return [arc[0], arc[step], arc[2 * step], arc[0]];
+  }
+  return isRing && coordinates.length < 4 ? arc : coordinates;
+};
+
+/**
+ * Remove polygon rings with less than 4 positions.
+ * Returns null when no valid polygon remains.
+ * @param geometry
+ */
+const removeDegenerateRings = (geometry: turf.Geometries): turf.Geometries => {
+  const validPolygon = (rings: turf.Position[][]) => {
+    const [exterior, ...holes] = rings;
+    if (!exterior || exterior.length < 4) {
+      return null;
+    }
+    return [exterior, ...holes.filter((ring) => ring.length >= 4)];
+  };
+  if (geometry && geometry.type === 'Polygon') {
+    const coordinates = validPolygon(geometry.coordinates);
+    return coordinates ? { ...geometry, coordinates } : null;
+  }
+  if (geometry && geometry.type === 'MultiPolygon') {
+    const coordinates = geometry.coordinates.map(validPolygon).filter(Boolean);
+    return coordinates.length ? { ...geometry, coordinates } : null;
+  }
+  return geometry;
+};
+
+/**
+ * Reduce the coordinate precision of a FeatureCollection to the specified number of decimals.
+ * Consecutive duplicate positions resulting from the truncation are removed.
+ * @param geojson: input GeoJSON FeatureCollection
+ * @param precision: coordinate decimal precision
+ * @param raiseError
+ */
+export const truncateGeojson = (
+  geojson: turf.FeatureCollection,
+  precision: number,
+  raiseError: boolean = true
+): turf.FeatureCollection => {
+  try {
+    const truncated: turf.FeatureCollection = turf.truncate(geojson, { precision, coordinates: 2 });
+    truncated.features = truncated.features.map((feat) => {
+      try {
+        return feat.geometry ? turf.cleanCoords(feat) : feat;
+      } catch (err) {
+        return feat; // keep truncated geometry when it can't be cleaned;
+      }
+    });
+    return truncated;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not truncate GeoJSON object.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Takes a bbox and returns an equivalent polygon with a counter-clockwise exterior ring.
+ * Edges are densified so the polygon follows the lines of latitude when interpreted
+ * with geodesic edges (eg: MongoDB 2dsphere queries).
+ * @param bbox: extent in [minX, minY, maxX, maxY] order
+ * @param maxSegmentDeg: max edge length, in degrees
+ * @param raiseError
+ */
+export const computeBboxPolygon = (
+  bbox: turf.BBox,
+  maxSegmentDeg: number = 1,
+  raiseError: boolean = true
+): turf.Polygon => {
+  try {
+    const [minX, minY, maxX, maxY] = bbox;
+    const corners = [
+      [minX, minY],
+      [maxX, minY],
+      [maxX, maxY],
+      [minX, maxY],
+      [minX, minY],
+    ];
+    const ring: turf.Position[] = [];
+    corners.slice(1).forEach(([x, y], i) => {
+      const [prevX, prevY] = corners[i];
+      const steps = Math.max(Math.ceil(Math.max(Math.abs(x - prevX), Math.abs(y - prevY)) / maxSegmentDeg), 1);
+      for (let step = 0; step < steps; step++) {
+        ring.push([prevX + ((x - prevX) * step) / steps, prevY + ((y - prevY) * step) / steps]);
+      }
+    });
+    ring.push([minX, minY]); // close the ring;
+
+    return turf.polygon([ring]).geometry;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute bbox polygon.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Takes a center point and returns a circle polygon with a counter-clockwise exterior ring.
+ * @param center: center position [lon, lat]
+ * @param radiusKm: radius in kilometers
+ * @param steps: number of vertices
+ * @param raiseError
+ */
+export const computeCirclePolygon = (
+  center: turf.Position,
+  radiusKm: number,
+  steps: number = 64,
+  raiseError: boolean = true
+): turf.Polygon => {
+  try {
+    const circle = turf.circle(center, radiusKm, { steps, units: 'kilometers' });
+    return turf.rewind(circle).geometry;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute circle polygon.');
+    }
+  }
+  return null;
+};
+
+/**
+ * Takes two GeoJSON objects and returns the area of their intersection in square kilometers.
+ *
+ * Polygons of the first object are merged before intersecting, polygons
+ * of the second object are expected not to overlap each other.
+ * Polygon pairs which can't be intersected (eg: coincident edges) are skipped.
+ * @param geojson: input GeoJSON object
+ * @param other: GeoJSON object to intersect with
+ * @param raiseError
+ * @return number: area in square kilometers
+ */
+export const computeIntersectionAreaKm2 = (
+  geojson: turf.AllGeoJSON,
+  other: turf.AllGeoJSON,
+  raiseError: boolean = true
+): number => {
+  const overlaps = (a: turf.BBox, b: turf.BBox) => a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+  const polygonsOf = (g: turf.AllGeoJSON) =>
+    turf.flatten(g).features.filter((feat) => turf.getType(feat) === 'Polygon') as turf.Feature<turf.Polygon>[];
+
+  try {
+    let polygons = polygonsOf(geojson);
+    if (polygons.length > 1) {
+      polygons = polygonsOf(turf.union(...polygons));
+    }
+    const otherPolygons = polygonsOf(other).map((polygon) => ({ polygon, bbox: turf.bbox(polygon) }));
+
+    let area = 0; // area in square meters;
+    polygons.forEach((polygon) => {
+      const bbox = turf.bbox(polygon);
+      otherPolygons
+        .filter((item) => overlaps(bbox, item.bbox))
+        .forEach((item) => {
+          try {
+            const intersection = turf.intersect(polygon, item.polygon);
+            if (intersection) {
+              area += turf.area(intersection);
+            }
+          } catch (err) {
+            // robustness issues on (nearly) coincident edges, skip the pair;
+            logger.warn('[computeIntersectionAreaKm2] could not intersect polygons: %s', err.message);
+          }
+        });
+    });
+    return area / 1e6;
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not compute intersection area/km2.');
+    }
+  }
+  return null;
+};
+
+export enum GeometryRepairEnum {
+  CLOSE_RINGS = 'close-rings',
+  REMOVE_DUPLICATE_VERTICES = 'remove-duplicate-vertices',
+  UNKINK = 'unkink',
+  REWIND = 'rewind',
+}
+
+export interface GeometryIssue {
+  index: number; // feature index;
+  detail: string;
+}
+
+export interface GeometryRepair {
+  index: number; // feature index;
+  repairs: GeometryRepairEnum[];
+}
+
+const isValidPosition = (position: turf.Position): boolean =>
+  Array.isArray(position) &&
+  position.length >= 2 &&
+  position.every((c) => typeof c === 'number' && isFinite(c)) &&
+  Math.abs(position[0]) <= 180 &&
+  Math.abs(position[1]) <= 90;
+
+const isClockwiseRing = (ring: turf.Position[]): boolean => turf.booleanClockwise(turf.lineString(ring));
+
+const findPositionIssues = (positions: turf.Position[], label: string, minPositions: number): string[] => {
+  if (!Array.isArray(positions) || !positions.every(isValidPosition)) {
+    return [`${label} has invalid positions`];
+  }
+  if (positions.length < minPositions) {
+    return [`${label} must have at least ${minPositions} positions`];
+  }
+  return [];
+};
+
+const orientation = (a: turf.Position, b: turf.Position, c: turf.Position): number =>
+  Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+
+/**
+ * Check if two segments cross at a point interior to both.
+ * Segments touching at vertices or overlapping on the same line are not crossing.
+ */
+const isProperCrossing = ([a, b]: turf.Position[], [c, d]: turf.Position[]): boolean =>
+  orientation(a, b, c) * orientation(a, b, d) < 0 && orientation(c, d, a) * orientation(c, d, b) < 0;
+
+/**
+ * Check if the rings of a polygon cross themselves or each other, sweeping the segments along the x-axis.
+ * Rings touching at shared vertices are valid, eg: boundaries of adjacent regions.
+ * @param rings
+ */
+const hasRingCrossings = (rings: turf.Position[][]): boolean => {
+  const segments = flatMap(rings, (ring) => ring.slice(1).map((position, j) => [ring[j], position]))
+    .map((segment) => ({
+      segment,
+      minX: Math.min(segment[0][0], segment[1][0]),
+      maxX: Math.max(segment[0][0], segment[1][0]),
+      minY: Math.min(segment[0][1], segment[1][1]),
+      maxY: Math.max(segment[0][1], segment[1][1]),
+    }))
+    .sort((a, b) => a.minX - b.minX);
+
+  let active: typeof segments = [];
+  for (const current of segments) {
+    active = active.filter((other) => other.maxX >= current.minX);
+    const crossing = active.some(
+      (other) =>
+        other.minY <= current.maxY && other.maxY >= current.minY && isProperCrossing(other.segment, current.segment)
+    );
+    if (crossing) {
+      return true;
+    }
+    active.push(current);
+  }
+  return false;
+};
+
+const findPolygonIssues = (rings: turf.Position[][], label: string): string[] => {
+  if (!Array.isArray(rings) || !rings.length) {
+    return [`${label} must have at least one ring`];
+  }
+  const issues = flatMap(rings, (ring, i) => {
+    const ringLabel = `${label} ring ${i}`;
+    const positionIssues = findPositionIssues(ring, ringLabel, 4);
+    if (positionIssues.length) {
+      return positionIssues;
+    }
+    const ringIssues = [];
+    if (!isEqual(ring[0], ring[ring.length - 1])) {
+      ringIssues.push(`${ringLabel} is not closed`);
+    }
+    return ringIssues;
+  });
+  if (issues.length) {
+    return issues;
+  }
+  // exterior ring & holes must have opposite winding orders;
+  const isClockwise = isClockwiseRing(rings[0]);
+  rings.forEach((ring, i) => {
+    if (i > 0 && isClockwiseRing(ring) === isClockwise) {
+      issues.push(`${label} ring ${i} has the same winding order as the exterior ring`);
+    }
+  });
+  if (hasRingCrossings(rings)) {
+    issues.push(`${label} is self-intersecting`);
+  }
+  return issues;
+};
+
+const findGeometryIssues = (geometry: turf.Geometry | turf.GeometryCollection, label: string): string[] => {
+  if (!geometry) {
+    return [`${label} is missing`];
+  }
+  switch (geometry.type) {
+    case 'Point':
+      return isValidPosition(<turf.Position>geometry.coordinates) ? [] : [`${label} has an invalid position`];
+    case 'MultiPoint':
+      return findPositionIssues(<turf.Position[]>geometry.coordinates, label, 1);
+    case 'LineString':
+      return findPositionIssues(<turf.Position[]>geometry.coordinates, label, 2);
+    case 'MultiLineString':
+      return flatMap(<turf.Position[][]>geometry.coordinates, (line, i) =>
+        findPositionIssues(line, `${label} line ${i}`, 2)
+      );
+    case 'Polygon':
+      return findPolygonIssues(<turf.Position[][]>geometry.coordinates, label);
+    case 'MultiPolygon':
+      return flatMap(<turf.Position[][][]>geometry.coordinates, (rings, i) =>
+        findPolygonIssues(rings, `${label} polygon ${i}`)
+      );
+    case 'GeometryCollection':
+      return flatMap((<turf.GeometryCollection>geometry).geometries, (g, i) => findGeometryIssues(g, `${label} ${i}`));
+    default:
+      return [`${label} has an unsupported type`];
+  }
+};
+
+/**
+ * Takes a FeatureCollection and returns the geometry issues found for each feature:
+ * invalid positions, short or unclosed rings, holes wound like their exterior ring and
+ * ring crossings. Rings touching at shared vertices and duplicate consecutive vertices are valid.
+ * Exterior rings can be wound either way, legacy datasets commonly use clockwise exterior
+ * rings (RFC 7946 parsers should not reject them); use repairGeojson() to rewind.
+ * @param geojson: input GeoJSON FeatureCollection
+ */
+export const validateGeojson = (geojson: turf.FeatureCollection): GeometryIssue[] =>
+  flatMap(geojson.features, (feat, index) =>
+    findGeometryIssues(feat.geometry, 'geometry').map((detail) => ({ index, detail }))
+  );
+
+const repairRing = (ring: turf.Position[], repairs: Set<GeometryRepairEnum>): turf.Position[] => {
+  let repaired = ring.filter((position, j) => j === 0 || !isEqual(position, ring[j - 1]));
+  if (repaired.length !== ring.length) {
+    repairs.add(GeometryRepairEnum.REMOVE_DUPLICATE_VERTICES);
+  }
+  if (repaired.length > 1 && !isEqual(repaired[0], repaired[repaired.length - 1])) {
+    repaired = [...repaired, repaired[0]];
+    repairs.add(GeometryRepairEnum.CLOSE_RINGS);
+  }
+  return repaired;
+};
+
+const repairPolygon = (rings: turf.Position[][], repairs: Set<GeometryRepairEnum>): turf.Position[][][] => {
+  let polygons = [rings.map((ring) => repairRing(ring, repairs))];
+
+  if (polygons[0].every((ring) => ring.length >= 4) && hasRingCrossings(polygons[0])) {
+    try {
+      polygons = turf.unkinkPolygon(turf.polygon(polygons[0])).features.map((feat) => feat.geometry.coordinates);
+      repairs.add(GeometryRepairEnum.UNKINK);
+    } catch (err) {
+      logger.warn('[repairPolygon] could not unkink polygon: %s', err.message);
+    }
+  }
+  return polygons.map((polygon) =>
+    polygon.map((ring, i) => {
+      if (ring.length >= 4 && isClockwiseRing(ring) !== i > 0) {
+        repairs.add(GeometryRepairEnum.REWIND);
+        return [...ring].reverse();
+      }
+      return ring;
+    })
+  );
+};
+
+const repairGeometry = (geometry: any, repairs: Set<GeometryRepairEnum>): any => {
+  switch (geometry?.type) {
+    case 'Polygon': {
+      const polygons = repairPolygon(geometry.coordinates, repairs);
+      return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: flatMap(geometry.coordinates, (p) => repairPolygon(p, repairs)) };
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: geometry.geometries.map((g) => repairGeometry(g, repairs)) };
+    default:
+      return geometry;
+  }
+};
+
+/**
+ * Takes a FeatureCollection and repairs polygonal geometries by removing duplicate
+ * consecutive vertices, closing rings, splitting self-intersecting polygons and
+ * rewinding rings (RFC 7946). Returns the repaired FeatureCollection and the repairs
+ * applied for each feature.
+ * @param geojson: input GeoJSON FeatureCollection
+ * @param raiseError
+ */
+export const repairGeojson = (
+  geojson: turf.FeatureCollection,
+  raiseError: boolean = true
+): { geojson: turf.FeatureCollection; repairs: GeometryRepair[] } => {
+  try {
+    const repairs: GeometryRepair[] = [];
+    const features = geojson.features.map((feat, index) => {
+      const applied = new Set<GeometryRepairEnum>();
+      const geometry = repairGeometry(cloneDeep(feat.geometry), applied);
+      if (applied.size) {
+        repairs.push({ index, repairs: Array.from(applied) });
+      }
+      return { ...feat, geometry };
+    });
+    return { geojson: { ...geojson, features }, repairs };
+  } catch (err) {
+    logger.error(err);
+    if (raiseError) {
+      throw new GeoComputeError('Could not repair GeoJSON object.');
+    }
+  }
+  return null;
+};
@@ -0,0 +1,150 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import * as turf from '@turf/turf';
+import { get, isNil, omitBy, trim } from 'lodash';
+
+import { ExposedError, ValidationError } from '../errors';
+import { getLogger } from '../logging';
+import { Location, LocationModel, LocationTypeEnum } from '../models';
+import { getById, save, update } from '../models/utils';
+import { ErrorObject } from '../types/response';
+
+const logger = getLogger('import-service');
+
+export enum ImportStatusEnum {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  FAILED = 'failed',
+}
+
+/**
+ * Maps location fields to feature property names.
+ */
+export interface ImportPropertyMapping {
+  name?: string;
+  slug?: string;
+  type?: string;
+  description?: string;
+}
+
+export interface ImportResult {
+  index: number;
+  status: ImportStatusEnum;
+  id?: string;
+  slug?: string;
+  errors?: ErrorObject[];
+}
+
+export const DEFAULT_IMPORT_MAPPING: ImportPropertyMapping = {
+  name: 'name',
+  slug: 'slug',
+  type: 'type',
+  description: 'description',
+};
+
+/**
+ * Import locations from a GeoJSON FeatureCollection, one location per feature.
+ *
+ * Location fields are read from the feature properties based on the property mapping,
+ * falling back to the provided defaults. Features matching an existing slug from the
+ * same organization are updated, the rest are created.
+ *
+ * Features are processed sequentially, a failure does not stop the import.
+ * @param featureCollection
+ * @param organization
+ * @param mapping
+ * @param defaults
+ */
+export const importLocations = async (
+  featureCollection: turf.FeatureCollection,
+  organization: string,
+  mapping: ImportPropertyMapping = {},
+  defaults: Partial<Location> = {}
+): Promise<ImportResult[]> => {
+  const propertyMapping = { ...DEFAULT_IMPORT_MAPPING, ...omitBy(mapping, isNil) };
+
+  const results: ImportResult[] = [];
+  for (const [index, feature] of featureCollection.features.entries()) {
+    const properties = get(feature, 'properties') || {};
+    const valueOf = (key: keyof ImportPropertyMapping): string => {
+      const value = get(properties, propertyMapping[key]);
+      return isNil(value) ? undefined : trim(String(value));
+    };
+
+    const data = omitBy(
+      {
+        ...defaults,
+        name: valueOf('name'),
+        slug: valueOf('slug') || undefined, // auto-generated when missing;
+        type: valueOf('type') || defaults.type,
+        description: valueOf('description'),
+        geojson: { type: 'FeatureCollection', features: [feature] },
+        organization, // enforce a single primary group;
+      },
+      isNil
+    );
+
+    try {
+      if (data.type === LocationTypeEnum.COLLECTION) {
+        throw new ValidationError(
+          [
+            {
+              code: 400,
+              source: { pointer: '/data/attributes/type' },
+              title: 'ValidatorError',
+              detail: `Type not supported for import: ${data.type}`,
+            },
+          ],
+          400
+        );
+      }
+
+      const existing = data.slug
+        ? await getById(LocationModel, data.slug, { filter: { organization } }, ['slug'])
+        : null;
+
+      if (existing) {
+        const doc = await update(LocationModel, existing, <any>data, { select: { slug: 1 } });
+        results.push({ index, status: ImportStatusEnum.UPDATED, id: doc.id, slug: doc.slug });
+      } else {
+        const doc = await save(LocationModel, <any>data, { select: { slug: 1 } });
+        results.push({ index, status: ImportStatusEnum.CREATED, id: doc.id, slug: doc.slug });
+      }
+    } catch (err) {
+      logger.warn('[importLocations] could not import feature at index %s: %s', index, err.message);
+      results.push({ index, status: ImportStatusEnum.FAILED, slug: data.slug, errors: toErrorObjects(err) });
+    }
+  }
+  return results;
+};
+
+/**
+ * Convert an import exception into a list of error objects.
+ * @param err
+ */
+const toErrorObjects = (err: Error): ErrorObject[] => {
+  if (err instanceof ValidationError) {
+    return err.errors;
+  }
+  if (err instanceof ExposedError) {
+    return [{ code: err.code, title: err.name, detail: err.message }];
+  }
+  return [{ code: 500, title: 'InternalError', detail: 'Could not import feature.' }];
+};
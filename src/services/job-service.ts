@@ -0,0 +1,106 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { uniq } from 'lodash';
+
+import { Job, JobStatusEnum, JobTask, JobTaskStatusEnum } from '../models/JobModel';
+import { MetricModel } from '../models/MetricModel';
+
+import { getMetricProviders } from './metric-provider-service';
+import { isResultSettled } from './operation-service';
+import { OperationTypeEnum } from './sns';
+
+export interface JobProgress {
+  total: number;
+  pending: number;
+  dispatched: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  percentage: number;
+}
+
+/**
+ * Resolve the metric slugs expected from the workers when dispatching a location.
+ * When no metric slugs were requested, the metrics previously computed for the location are expected,
+ * except the metrics computed in-process; tasks missing some of them fail after the dispatch deadline.
+ * @param location
+ * @param resources: requested metric slugs;
+ * @param operationType
+ */
+export const resolveExpectedMetrics = async (
+  location: string,
+  resources: string[] = [],
+  operationType: OperationTypeEnum = OperationTypeEnum.CALCULATE
+): Promise<string[]> => {
+  if (resources.length) {
+    return resources;
+  }
+  const local = getMetricProviders(operationType).map((provider) => provider.slug);
+  const computed: string[] = await MetricModel.distinct('slug', { location });
+
+  return uniq(computed)
+    .filter((slug) => !local.includes(slug))
+    .sort();
+};
+
+/**
+ * Resolve the status of a dispatched task from the results received so far.
+ * The task settles on the metric slugs expected when dispatching, or on the requested ones for older tasks.
+ * @param task
+ * @param resources: requested metric slugs;
+ */
+export const resolveTaskStatus = (task: JobTask, resources: string[] = []): JobTaskStatusEnum => {
+  if (task.status !== JobTaskStatusEnum.DISPATCHED) {
+    return task.status;
+  }
+  const expected = task.expected && task.expected.length ? task.expected : resources;
+  if (!isResultSettled(task.received, task.rejected, expected)) {
+    return JobTaskStatusEnum.DISPATCHED;
+  }
+  return task.rejected && task.rejected.length ? JobTaskStatusEnum.FAILED : JobTaskStatusEnum.SUCCEEDED;
+};
+
+/**
+ * Count the tasks of a job by status.
+ * @param job
+ */
+export const getJobProgress = (job: Job): JobProgress => {
+  const tasks = job.tasks || [];
+  const count = (status: JobTaskStatusEnum) => tasks.filter((task) => task.status === status).length;
+
+  const settled = tasks.length - count(JobTaskStatusEnum.PENDING) - count(JobTaskStatusEnum.DISPATCHED);
+
+  return {
+    total: tasks.length,
+    pending: count(JobTaskStatusEnum.PENDING),
+    dispatched: count(JobTaskStatusEnum.DISPATCHED),
+    succeeded: count(JobTaskStatusEnum.SUCCEEDED),
+    failed: count(JobTaskStatusEnum.FAILED),
+    cancelled: count(JobTaskStatusEnum.CANCELLED),
+    percentage: tasks.length ? Math.round((settled / tasks.length) * 10000) / 100 : 100,
+  };
+};
+
+/**
+ * Check if a job can no longer change state.
+ * @param job
+ */
+export const isJobFinished = (job: Job): boolean =>
+  [JobStatusEnum.COMPLETED, JobStatusEnum.CANCELLED, JobStatusEnum.FAILED].includes(job.status);
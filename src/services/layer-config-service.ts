@@ -0,0 +1,192 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { ValidationError } from '../errors';
+import { JSONSchema, JSONSchemaError, validateJSONSchema } from '../helpers/json-schema';
+import { ErrorObject } from '../types/response';
+
+import { CompositeType } from './earthengine';
+import { TimeIntervalEnum } from './time-dimension-service';
+
+export const LAYER_CONFIG_POINTER = '/data/attributes/config';
+
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+
+const zoomSchema: JSONSchema = { type: 'number', minimum: 0, maximum: 24 };
+
+const tilesSchema: JSONSchema = {
+  type: 'array',
+  minItems: 1,
+  items: { type: 'string', minLength: 1, pattern: '\\{z\\}.*\\{x\\}.*\\{y\\}' },
+};
+
+// properties shared by all the layer configs;
+const baseSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    source: {
+      type: 'object',
+      properties: {
+        minzoom: zoomSchema,
+        maxzoom: zoomSchema,
+        minNativeZoom: zoomSchema,
+        maxNativeZoom: zoomSchema,
+      },
+    },
+    render: { type: 'object' },
+    legendConfig: {
+      type: 'object',
+      properties: {
+        type: { type: 'string' },
+        items: { type: 'array', items: { type: 'object' } },
+      },
+    },
+    interactionConfig: { type: 'object' },
+    applicationConfig: { type: 'object' },
+    staticImageConfig: { type: 'object' },
+  },
+};
+
+const sourceSchema = (schema: JSONSchema): JSONSchema => ({
+  required: ['source'],
+  properties: { source: { type: 'object', ...schema } },
+});
+
+// ImageCollection assets, composited by date;
+const timeDimensionSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    dates: { type: 'array', items: { type: 'string', pattern: DATE_PATTERN } },
+    default: { type: 'string', pattern: DATE_PATTERN },
+    interval: { type: 'string', enum: Object.values(TimeIntervalEnum) },
+    composite: { type: 'string', enum: Object.values(CompositeType) },
+  },
+};
+
+const geeSourceSchema = sourceSchema({
+  required: ['assetId'],
+  properties: {
+    assetId: { type: 'string', minLength: 1 },
+    sldValue: { type: 'string', minLength: 1 },
+    styleType: { type: 'string', enum: ['sld'] },
+    timeDimension: timeDimensionSchema,
+  },
+});
+
+// XYZ tile URLs or a TileJSON URL;
+const tilesSourceSchema = sourceSchema({
+  anyOf: [{ required: ['tiles'] }, { required: ['url'] }],
+  properties: { tiles: tilesSchema, url: { type: 'string', minLength: 1 } },
+});
+
+const cartoSourceSchema = sourceSchema({
+  required: ['provider'],
+  properties: {
+    provider: {
+      type: 'object',
+      required: ['account', 'layers'],
+      properties: {
+        account: { type: 'string', minLength: 1 },
+        layers: { type: 'array', minItems: 1, items: { type: 'object' } },
+      },
+    },
+  },
+});
+
+const geojsonSourceSchema = sourceSchema({
+  required: ['data'],
+  properties: { data: { type: ['object', 'string'] } }, // inline GeoJSON or URL;
+});
+
+const videoSourceSchema = sourceSchema({
+  required: ['urls', 'coordinates'],
+  properties: {
+    urls: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    coordinates: {
+      type: 'array',
+      minItems: 4,
+      maxItems: 4,
+      items: { type: 'array', minItems: 2, maxItems: 2, items: { type: 'number' } },
+    },
+  },
+});
+
+/**
+ * Config schemas by layer provider & type, groups only aggregate referenced layers.
+ * Combinations not listed are validated against the shared properties only.
+ */
+const LAYER_CONFIG_SCHEMAS: { [provider: string]: { [type: string]: JSONSchema } } = {
+  gee: {
+    raster: geeSourceSchema,
+  },
+  cartodb: {
+    raster: cartoSourceSchema,
+    vector: cartoSourceSchema,
+  },
+  mapbox: {
+    raster: tilesSourceSchema,
+    vector: tilesSourceSchema,
+    geojson: geojsonSourceSchema,
+    video: videoSourceSchema,
+  },
+  leaflet: {
+    raster: tilesSourceSchema,
+    vector: tilesSourceSchema,
+    geojson: geojsonSourceSchema,
+  },
+};
+
+/**
+ * Return the config schema of a layer provider & type.
+ * @param provider
+ * @param type
+ */
+export const getLayerConfigSchema = (provider: string, type: string): JSONSchema => {
+  const schema = LAYER_CONFIG_SCHEMAS[provider] && LAYER_CONFIG_SCHEMAS[provider][type];
+  return schema ? { allOf: [baseSchema, schema] } : baseSchema;
+};
+
+/**
+ * Validate a layer config against the schema of its provider & type.
+ * Returns the list of errors, pointing inside the layer attributes.
+ * @param provider
+ * @param type
+ * @param config
+ */
+export const validateLayerConfig = (provider: string, type: string, config: any): JSONSchemaError[] =>
+  validateJSONSchema(getLayerConfigSchema(provider, type), config, LAYER_CONFIG_POINTER);
+
+/**
+ * Raise a ValidationError when the layer config is invalid.
+ * @param provider
+ * @param type
+ * @param config
+ */
+export const assertLayerConfig = (provider: string, type: string, config: any): void => {
+  const errors = validateLayerConfig(provider, type, config);
+  if (errors.length) {
+    const errorObjects: ErrorObject[] = errors.map((e) => ({
+      code: 400,
+      source: { pointer: e.pointer },
+      title: 'ValidationError',
+      detail: e.detail,
+    }));
+    throw new ValidationError(errorObjects, 400);
+  }
+};
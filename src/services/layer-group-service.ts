@@ -0,0 +1,69 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { difference, uniq, without } from 'lodash';
+
+import { InvalidParameterError } from '../errors';
+
+export enum ReferencesOperationEnum {
+  ADD = 'add',
+  REMOVE = 'remove',
+  REORDER = 'reorder',
+}
+
+/**
+ * Apply an add/remove/reorder operation on the ordered references of a group layer.
+ * @param current: stored references
+ * @param operation
+ * @param references: references the operation applies to
+ * @param position: insert position for added references, defaults to the end
+ */
+export const applyReferencesOperation = (
+  current: string[],
+  operation: ReferencesOperationEnum,
+  references: string[],
+  position?: number
+): string[] => {
+  if (uniq(references).length !== references.length) {
+    throw new InvalidParameterError('Duplicate values for parameter: references', 400);
+  }
+  switch (operation) {
+    case ReferencesOperationEnum.ADD: {
+      if (references.some((ref) => current.includes(ref))) {
+        throw new InvalidParameterError('References already included in group.', 400);
+      }
+      const index = position === undefined ? current.length : Math.min(position, current.length);
+      return [...current.slice(0, index), ...references, ...current.slice(index)];
+    }
+    case ReferencesOperationEnum.REMOVE: {
+      if (difference(references, current).length) {
+        throw new InvalidParameterError('References not included in group.', 400);
+      }
+      return without(current, ...references);
+    }
+    case ReferencesOperationEnum.REORDER: {
+      if (references.length !== current.length || difference(current, references).length) {
+        throw new InvalidParameterError('Reorder requires all the references included in group.', 400);
+      }
+      return references;
+    }
+    default:
+      throw new InvalidParameterError(`Unsupported operation: ${operation}`, 400);
+  }
+};
@@ -0,0 +1,223 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Redis } from 'ioredis';
+import { get, isArray, isNil, isNumber, isString } from 'lodash';
+
+import { getLogger } from '../logging';
+
+import { WithCache } from './base/WithCache';
+
+const logger = getLogger('legend-service');
+
+enum CacheKeys {
+  LAYER_LEGEND = 'LAYER_LEGEND',
+}
+
+export enum LegendTypeEnum {
+  GRADIENT = 'gradient',
+  CHOROPLETH = 'choropleth',
+  BASIC = 'basic',
+}
+
+export enum LegendSourceEnum {
+  SLD = 'sld',
+  PAINT = 'paint',
+}
+
+export interface LegendItem {
+  color: string;
+  label?: string;
+  quantity?: number;
+  opacity?: number;
+}
+
+export interface Legend {
+  id: string;
+  layer: string;
+  version: number;
+  type: LegendTypeEnum;
+  source: LegendSourceEnum;
+  items: LegendItem[];
+}
+
+// See: https://docs.geoserver.org/stable/en/user/styling/sld/reference/rastersymbolizer.html#colormap
+const SLD_COLOR_MAP_TYPES = {
+  ramp: LegendTypeEnum.GRADIENT,
+  intervals: LegendTypeEnum.CHOROPLETH,
+  values: LegendTypeEnum.BASIC,
+};
+
+// Mapbox layer types with a color paint property, in order of precedence;
+const PAINT_LAYER_TYPES = ['fill', 'fill-extrusion', 'line', 'circle'];
+
+const parseXMLAttributes = (tag: string): { [key: string]: string } => {
+  const attributes = {};
+  const re = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray;
+  while ((match = re.exec(tag))) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+};
+
+const toLegendItem = (color: string, quantity?: any, label?: any, opacity?: any): LegendItem => {
+  const item: LegendItem = { color };
+  if (!isNil(quantity) && !isNaN(Number(quantity))) {
+    item.quantity = Number(quantity);
+  }
+  if (!isNil(label) || !isNil(quantity)) {
+    item.label = String(label ?? quantity);
+  }
+  if (!isNil(opacity) && !isNaN(Number(opacity))) {
+    item.opacity = Number(opacity);
+  }
+  return item;
+};
+
+/**
+ * Derive the legend from the ColorMap entries of a SLD raster style.
+ * @param sld
+ */
+export const parseSLDLegend = (sld: string): { type: LegendTypeEnum; items: LegendItem[] } => {
+  const colorMap = sld.match(/<(?:\w+:)?ColorMap\b([^>]*)>/);
+  const colorMapType = colorMap ? parseXMLAttributes(colorMap[1]).type : null;
+
+  const entries = sld.match(/<(?:\w+:)?ColorMapEntry\b[^>]*>/g) || [];
+  const items = entries
+    .map((entry) => parseXMLAttributes(entry))
+    .filter((attributes) => !!attributes.color)
+    .map(({ color, quantity, label, opacity }) => toLegendItem(color, quantity, label, opacity ?? 1));
+
+  return { type: SLD_COLOR_MAP_TYPES[colorMapType] || LegendTypeEnum.GRADIENT, items };
+};
+
+/**
+ * Derive the legend from a Mapbox color paint property.
+ *
+ * Supports literal colors and the "interpolate", "step" & "match" expressions.
+ * @param color
+ * @param opacity
+ */
+export const parseColorExpression = (
+  color: any,
+  opacity?: number
+): { type: LegendTypeEnum; items: LegendItem[] } | null => {
+  if (isString(color)) {
+    return { type: LegendTypeEnum.BASIC, items: [toLegendItem(color, null, null, opacity)] };
+  }
+  if (!isArray(color) || !color.length) {
+    return null;
+  }
+  const [operator, ...args] = color;
+
+  const pairs = (values: any[]): any[][] =>
+    values.reduce((acc, value, i) => (i % 2 ? acc : acc.concat([[value, values[i + 1]]])), []);
+
+  let type: LegendTypeEnum;
+  let items: LegendItem[];
+  if (['interpolate', 'interpolate-hcl', 'interpolate-lab'].includes(operator)) {
+    // ["interpolate", interpolation, input, stop_input_1, stop_output_1, ...];
+    type = LegendTypeEnum.GRADIENT;
+    items = pairs(args.slice(2)).map(([stop, output]) => toLegendItem(output, stop, null, opacity));
+  } else if (operator === 'step') {
+    // ["step", input, stop_output_0, stop_input_1, stop_output_1, ...];
+    type = LegendTypeEnum.CHOROPLETH;
+    items = [toLegendItem(args[1], null, null, opacity)].concat(
+      pairs(args.slice(2)).map(([stop, output]) => toLegendItem(output, stop, null, opacity))
+    );
+  } else if (operator === 'match') {
+    // ["match", input, label_1, output_1, ..., fallback];
+    type = LegendTypeEnum.BASIC;
+    items = pairs(args.slice(1, -1)).map(([label, output]) =>
+      toLegendItem(output, null, isArray(label) ? label.join(', ') : label, opacity)
+    );
+  } else {
+    return null;
+  }
+  return { type, items: items.filter((item) => isString(item.color)) };
+};
+
+/**
+ * Derive the legend from the paint definitions of the Mapbox render layers.
+ * @param config
+ */
+export const parsePaintLegend = (config: any): { type: LegendTypeEnum; items: LegendItem[] } | null => {
+  const layers: any[] = get(config, 'render.layers', []);
+  const paints = (isArray(layers) ? layers : []).map((layer) => get(layer, 'paint')).filter((paint) => !!paint);
+
+  for (const layerType of PAINT_LAYER_TYPES) {
+    for (const paint of paints) {
+      const color = paint[`${layerType}-color`];
+      if (isNil(color)) {
+        continue;
+      }
+      const opacity = paint[`${layerType}-opacity`];
+      const legend = parseColorExpression(color, isNumber(opacity) ? opacity : undefined);
+      if (legend) {
+        return legend;
+      }
+    }
+  }
+  return null;
+};
+
+export class LegendService extends WithCache {
+  constructor(cache?: Redis, cacheTTL?: number) {
+    super(cache, cacheTTL);
+  }
+
+  /**
+   * Derive the legend of a layer from the SLD style or the Mapbox paint definitions in config.
+   *
+   * Results are cached by layer id & version.
+   * @param layer
+   */
+  async getLegend(layer: { id?: any; version?: number; config?: any }): Promise<Legend> {
+    const isCacheable = !isNil(layer.version);
+    const cacheKey = this.mkCacheKey(CacheKeys.LAYER_LEGEND, layer.id, layer.version);
+
+    let legend: Legend = isCacheable ? await this.fromCache(cacheKey) : null;
+    if (!legend) {
+      const styleType = get(layer.config, 'source.styleType');
+      const style = get(layer.config, 'source.sldValue');
+
+      let parsed: { type: LegendTypeEnum; items: LegendItem[] };
+      let source: LegendSourceEnum;
+      if (styleType === 'sld' && style) {
+        parsed = parseSLDLegend(style);
+        source = LegendSourceEnum.SLD;
+      } else {
+        parsed = parsePaintLegend(layer.config);
+        source = LegendSourceEnum.PAINT;
+      }
+      if (!parsed || !parsed.items.length) {
+        return null;
+      }
+      legend = { id: layer.id, layer: layer.id, version: layer.version, source, ...parsed };
+      logger.debug('[getLegend] derived %s legend for: %s', source, layer.id);
+
+      if (isCacheable) {
+        await this.toCache(cacheKey, legend);
+      }
+    }
+    return legend;
+  }
+}
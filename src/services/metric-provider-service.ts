@@ -0,0 +1,121 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import * as turf from '@turf/turf';
+
+import { METRIC_LOCAL_PROVIDERS } from '../config';
+
+import {
+  computeAreaKm2,
+  computeCompactness,
+  computePerimeterKm,
+  computeShapeBbox,
+  computeVertexCount,
+} from './geospatial';
+import { OperationTypeEnum } from './sns';
+
+export interface MetricProvider {
+  slug: string;
+  operationTypes: OperationTypeEnum[];
+  compute: (geojson: turf.AllGeoJSON) => object;
+}
+
+const providers: { [slug: string]: MetricProvider } = {};
+
+/**
+ * Register a provider computing a metric slug in-process, replaces any provider registered for the same slug.
+ * @param provider
+ */
+export const registerMetricProvider = (provider: MetricProvider): void => {
+  providers[provider.slug] = provider;
+};
+
+/**
+ * Parse the comma separated slugs of the enabled providers.
+ * @param value
+ */
+export const parseEnabledProviders = (value: string): string[] =>
+  (value || '')
+    .split(',')
+    .map((slug) => slug.trim())
+    .filter((slug) => !!slug);
+
+const enabledProviders = parseEnabledProviders(METRIC_LOCAL_PROVIDERS);
+
+/**
+ * Return the enabled provider of a metric slug supporting the operation type.
+ * Metric slugs without a provider are computed by the external workers.
+ * @param slug
+ * @param operationType
+ * @param enabled: enabled metric slugs;
+ */
+export const getMetricProvider = (
+  slug: string,
+  operationType: OperationTypeEnum,
+  enabled: string[] = enabledProviders
+): MetricProvider => {
+  const provider = providers[slug];
+  if (provider && enabled.includes(slug) && provider.operationTypes.includes(operationType)) {
+    return provider;
+  }
+  return null;
+};
+
+/**
+ * Return all the enabled providers supporting the operation type.
+ * @param operationType
+ * @param enabled: enabled metric slugs;
+ */
+export const getMetricProviders = (
+  operationType: OperationTypeEnum,
+  enabled: string[] = enabledProviders
+): MetricProvider[] =>
+  Object.keys(providers)
+    .map((slug) => getMetricProvider(slug, operationType, enabled))
+    .filter((p) => !!p);
+
+registerMetricProvider({
+  slug: 'area',
+  operationTypes: [OperationTypeEnum.CALCULATE],
+  compute: (geojson) => ({ value: computeAreaKm2(geojson), unit: 'km2' }),
+});
+
+registerMetricProvider({
+  slug: 'perimeter',
+  operationTypes: [OperationTypeEnum.CALCULATE],
+  compute: (geojson) => ({ value: computePerimeterKm(geojson), unit: 'km' }),
+});
+
+registerMetricProvider({
+  slug: 'vertex-count',
+  operationTypes: [OperationTypeEnum.CALCULATE],
+  compute: (geojson) => ({ value: computeVertexCount(geojson) }),
+});
+
+registerMetricProvider({
+  slug: 'bbox',
+  operationTypes: [OperationTypeEnum.CALCULATE],
+  compute: (geojson) => ({ value: computeShapeBbox(geojson) }),
+});
+
+registerMetricProvider({
+  slug: 'compactness',
+  operationTypes: [OperationTypeEnum.CALCULATE],
+  compute: (geojson) => ({ value: computeCompactness(geojson) }), // Polsby-Popper score;
+});
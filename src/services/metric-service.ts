@@ -0,0 +1,229 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { boolean } from 'boolean';
+import { flatMap, isEqual, isNumber, orderBy, uniq } from 'lodash';
+
+import { KEEP_METRIC_VERSIONS, METRIC_RETENTION_POLICIES } from '../config';
+import { JSONSchemaError, validateJSONSchema } from '../helpers/json-schema';
+import { flattenObject } from '../helpers/util';
+import { getLogger } from '../logging';
+import { Metric, MetricDefinition } from '../models';
+
+const logger = getLogger('metric-service');
+
+export enum MetricRetentionEnum {
+  ALL = 'all', // keep all versions;
+  LAST = 'last', // keep the last N versions;
+  AGE = 'age', // keep the versions created in the last N days;
+}
+
+export interface MetricRetentionPolicy {
+  type: MetricRetentionEnum;
+  value?: number;
+}
+
+export type MetricSnapshot = Partial<Pick<Metric, 'version' | 'metric' | 'createdAt'>> & { id?: any };
+
+export interface MetricVersionChange {
+  path: string;
+  from: any;
+  to: any;
+  change: number;
+  changePercentage: number;
+}
+
+export interface MetricVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  added: string[];
+  removed: string[];
+  changes: MetricVersionChange[];
+}
+
+export interface MetricAggregateStats {
+  count: number;
+  sum: number;
+  avg: number;
+  min: number;
+  max: number;
+  percentiles: { [key: string]: number };
+}
+
+export interface MetricAggregateRank {
+  id: string;
+  location: string;
+  version: number;
+  value: number;
+  rank: number;
+}
+
+export interface MetricAggregateOptions {
+  order?: 'asc' | 'desc';
+  skip?: number;
+  limit?: number;
+  percentiles?: number[];
+}
+
+/**
+ * Parse the configured retention policies, keyed by metric slug.
+ * @param policies
+ */
+export const parseRetentionPolicies = (policies: string): { [slug: string]: MetricRetentionPolicy } => {
+  try {
+    const parsed = JSON.parse(policies || '{}');
+    return Object.entries(parsed).reduce((acc, [slug, policy]: [string, MetricRetentionPolicy]) => {
+      const isValid =
+        Object.values(MetricRetentionEnum).includes(policy?.type) &&
+        (policy.type === MetricRetentionEnum.ALL || (isNumber(policy.value) && policy.value > 0));
+      if (isValid) {
+        acc[slug] = policy;
+      } else {
+        logger.warn('[parseRetentionPolicies] ignoring invalid retention policy for: %s', slug);
+      }
+      return acc;
+    }, {});
+  } catch (err) {
+    logger.warn('[parseRetentionPolicies] could not parse retention policies: %s', err.message);
+    return {};
+  }
+};
+
+const retentionPolicies = parseRetentionPolicies(METRIC_RETENTION_POLICIES);
+
+/**
+ * Return the retention policy of a metric slug.
+ * Defaults to keeping the latest version, or all the versions when KEEP_METRIC_VERSIONS is set.
+ * @param slug
+ */
+export const getRetentionPolicy = (slug: string): MetricRetentionPolicy => {
+  if (retentionPolicies[slug]) {
+    return retentionPolicies[slug];
+  }
+  if (boolean(KEEP_METRIC_VERSIONS)) {
+    return { type: MetricRetentionEnum.ALL };
+  }
+  return { type: MetricRetentionEnum.LAST, value: 1 };
+};
+
+/**
+ * Select the versions which expired according to the retention policy.
+ * The latest version is always kept.
+ * @param versions
+ * @param policy
+ * @param now
+ */
+export const selectExpiredVersions = (
+  versions: MetricSnapshot[],
+  policy: MetricRetentionPolicy,
+  now: Date = new Date()
+): MetricSnapshot[] => {
+  const [latest, ...previous] = orderBy(versions, ['version'], ['desc']);
+  if (!latest) {
+    return [];
+  }
+  switch (policy.type) {
+    case MetricRetentionEnum.LAST:
+      return previous.slice(Math.max(policy.value - 1, 0));
+    case MetricRetentionEnum.AGE: {
+      const threshold = now.getTime() - policy.value * 24 * 60 * 60 * 1000; // days to ms;
+      return previous.filter((snapshot) => !snapshot.createdAt || new Date(snapshot.createdAt).getTime() < threshold);
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Compare two versions of a metric, field by field.
+ * Nested fields are compared by their dotted paths, numeric changes are computed as to - from.
+ * @param from
+ * @param to
+ */
+export const diffMetricVersions = (from: MetricSnapshot, to: MetricSnapshot): MetricVersionDiff => {
+  const fromFields = flattenObject(from.metric || {});
+  const toFields = flattenObject(to.metric || {});
+
+  const added = Object.keys(toFields).filter((path) => !(path in fromFields));
+  const removed = Object.keys(fromFields).filter((path) => !(path in toFields));
+
+  const changes = Object.keys(toFields)
+    .filter((path) => path in fromFields && !isEqual(fromFields[path], toFields[path]))
+    .map((path) => {
+      const [fromValue, toValue] = [fromFields[path], toFields[path]];
+      const change = isNumber(fromValue) && isNumber(toValue) ? toValue - fromValue : null;
+      return {
+        path,
+        from: fromValue,
+        to: toValue,
+        change,
+        changePercentage: change !== null && fromValue ? (change / fromValue) * 100 : null,
+      };
+    });
+
+  return { fromVersion: from.version, toVersion: to.version, added, removed, changes };
+};
+
+/**
+ * Validate a metric payload against the JSON Schema of its definition.
+ * Error pointers are relative to the metric document.
+ * @param definition
+ * @param metric
+ */
+export const validateMetricPayload = (definition: MetricDefinition, metric: any): JSONSchemaError[] =>
+  validateJSONSchema(definition.jsonSchema, metric, '/metric');
+
+const percentilePosition = (count: number, p: number): number => (p / 100) * (count - 1);
+
+/**
+ * Return the ranks (zero-based, ascending order) of the values needed to compute the percentiles of count values.
+ * @param count
+ * @param percentiles
+ */
+export const percentileRanks = (count: number, percentiles: number[]): number[] =>
+  count
+    ? uniq(
+        flatMap(percentiles, (p) => {
+          const position = percentilePosition(count, p);
+          return [Math.floor(position), Math.ceil(position)];
+        })
+      ).sort((a, b) => a - b)
+    : [];
+
+/**
+ * Compute the percentiles of count values, using linear interpolation between the closest ranks.
+ * @param count
+ * @param percentiles
+ * @param valueAt: values by rank, including the ranks returned by percentileRanks
+ */
+export const interpolatePercentiles = (
+  count: number,
+  percentiles: number[],
+  valueAt: { [rank: number]: number }
+): { [key: string]: number } =>
+  percentiles.reduce((acc, p) => {
+    if (!count) {
+      acc[`p${p}`] = null;
+      return acc;
+    }
+    const position = percentilePosition(count, p);
+    const [lower, upper] = [Math.floor(position), Math.ceil(position)];
+    acc[`p${p}`] = valueAt[lower] + (valueAt[upper] - valueAt[lower]) * (position - lower);
+    return acc;
+  }, {});
@@ -0,0 +1,139 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Redis } from 'ioredis';
+import Redlock from 'redlock';
+import { v4 as uuidv4 } from 'uuid';
+
+import { getLogger } from '../logging';
+import { Operation, OperationModel, OperationStatusEnum } from '../models/OperationModel';
+
+const logger = getLogger('operation-service');
+
+/**
+ * Check if the results received so far settle the expected metric slugs.
+ * When no metric slugs could be resolved, the first result settles the request.
+ * @param received
+ * @param rejected
+ * @param resources: expected metric slugs;
+ */
+export const isResultSettled = (received: string[] = [], rejected: string[] = [], resources: string[] = []): boolean =>
+  resources.length
+    ? resources.every((slug) => received.includes(slug) || rejected.includes(slug))
+    : received.length + rejected.length > 0;
+
+/**
+ * Resolve the status of an operation from the results received so far.
+ * @param operation
+ */
+export const resolveOperationStatus = (operation: Operation): OperationStatusEnum => {
+  if ([OperationStatusEnum.SUCCEEDED, OperationStatusEnum.FAILED].includes(operation.status)) {
+    return operation.status;
+  }
+  const received = operation.received || [];
+  const rejected = operation.rejected || [];
+  const expected = operation.expected && operation.expected.length ? operation.expected : operation.resources;
+
+  if (isResultSettled(received, rejected, expected)) {
+    return rejected.length ? OperationStatusEnum.FAILED : OperationStatusEnum.SUCCEEDED;
+  }
+  return received.length + rejected.length ? OperationStatusEnum.RUNNING : OperationStatusEnum.QUEUED;
+};
+
+/**
+ * Record an operation, returns the operation ID.
+ * @param operation
+ */
+export const recordOperation = async (operation: Operation): Promise<string> => {
+  const { id = uuidv4(), ...rest } = operation;
+  await OperationModel.create({ _id: id, ...rest });
+  return id;
+};
+
+/**
+ * Record an operation before publishing its event, the results might arrive before publishing returns.
+ * The SNS message ID is attached once published, operations which could not be published fail.
+ * Returns the operation ID, or null when the event could not be published.
+ * @param operation
+ * @param publish: publishes the event, returns the SNS message ID;
+ */
+export const dispatchOperation = async (operation: Operation, publish: () => Promise<string>): Promise<string> => {
+  const operationId = await recordOperation(operation);
+
+  let messageId: string = null;
+  try {
+    messageId = await publish();
+  } finally {
+    const update = messageId ? { messageId } : { status: OperationStatusEnum.FAILED, completedAt: new Date() };
+    await OperationModel.updateOne({ _id: operationId }, { $set: update });
+  }
+  return messageId ? operationId : null;
+};
+
+/**
+ * Record a result on the active operations of the location which requested the metric slug.
+ * The lock of the operation is released as soon as the operation settles.
+ * @param location
+ * @param slug
+ * @param accepted
+ * @param redisClient
+ */
+export const updateOperations = async (
+  location: string,
+  slug: string,
+  accepted: boolean,
+  redisClient?: Redis
+): Promise<void> => {
+  const operations = await OperationModel.find({
+    location,
+    status: { $in: [OperationStatusEnum.QUEUED, OperationStatusEnum.RUNNING] },
+    $or: [{ resources: slug }, { expected: slug }, { resources: { $size: 0 } }],
+  })
+    .select(['_id'])
+    .lean();
+
+  for (const { _id } of operations) {
+    const operation = await OperationModel.findByIdAndUpdate(
+      _id,
+      { $addToSet: { [accepted ? 'received' : 'rejected']: slug } },
+      { new: true }
+    );
+    const status = resolveOperationStatus(operation);
+    if (status === operation.status) {
+      continue;
+    }
+    operation.status = status;
+    operation.startedAt = operation.startedAt || new Date();
+    if ([OperationStatusEnum.SUCCEEDED, OperationStatusEnum.FAILED].includes(status)) {
+      operation.completedAt = new Date();
+    }
+    await operation.save();
+
+    if (operation.completedAt && operation.lock && redisClient) {
+      const redlock = new Redlock([redisClient]);
+      const { resource, value } = operation.lock;
+      try {
+        await redlock.unlock(new Redlock.Lock(redlock, resource, value, 0, 0));
+        logger.debug('released lock for: %s', resource);
+      } catch (err) {
+        logger.warn('could not release lock for: %s', resource); // lock might have expired;
+      }
+    }
+  }
+};
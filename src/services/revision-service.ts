@@ -0,0 +1,70 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { isEqual } from 'lodash';
+
+import { Location } from '../models';
+
+export type LocationSnapshot = Partial<
+  Pick<Location, 'version' | 'name' | 'description' | 'geojson' | 'bbox2d' | 'areaKm2'>
+>;
+
+export interface LocationRevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+  areaKm2: { from: number; to: number; change: number; changePercentage: number };
+  bbox2d: { from: number[]; to: number[]; change: number[] };
+}
+
+const REVISION_DIFF_FIELDS: (keyof LocationSnapshot)[] = ['name', 'description', 'geojson'];
+
+/**
+ * Compare two location snapshots (revisions or the current location).
+ * Returns the changed fields, the area change and the bbox change, computed as to - from.
+ * @param from
+ * @param to
+ */
+export const diffLocationSnapshots = (from: LocationSnapshot, to: LocationSnapshot): LocationRevisionDiff => {
+  const changes = REVISION_DIFF_FIELDS.filter((field) => !isEqual(from[field], to[field]));
+
+  const fromArea = from.areaKm2 ?? null;
+  const toArea = to.areaKm2 ?? null;
+  const areaChange = fromArea !== null && toArea !== null ? toArea - fromArea : null;
+
+  const fromBbox = from.bbox2d && from.bbox2d.length ? from.bbox2d : null;
+  const toBbox = to.bbox2d && to.bbox2d.length ? to.bbox2d : null;
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    changes,
+    areaKm2: {
+      from: fromArea,
+      to: toArea,
+      change: areaChange,
+      changePercentage: areaChange !== null && fromArea ? (areaChange / fromArea) * 100 : null,
+    },
+    bbox2d: {
+      from: fromBbox,
+      to: toBbox,
+      change: fromBbox && toBbox ? toBbox.map((value, i) => value - fromBbox[i]) : null,
+    },
+  };
+};
@@ -51,7 +51,8 @@ export const s3StreamUpload = async (
   keyPath: string,
   contentType: string,
   metadata?: { [key: string]: string },
-  bucketName: string = S3_ASSETS_BUCKET
+  bucketName: string = S3_ASSETS_BUCKET,
+  acl: string = 'public-read'
 ): Promise<StorageEvent> => {
   try {
     const config: PutObjectRequest = {
@@ -59,7 +60,7 @@ export const s3StreamUpload = async (
       Key: keyPath,
       Body: readable,
       ContentType: contentType,
-      ACL: 'public-read',
+      ACL: acl,
       CacheControl: `max-age=${S3_MAP_TILES_TTL}`,
     };
     if (metadata) {
@@ -109,6 +110,25 @@ export const s3KeyExists = async (keyPath: string, bucketName: string = S3_ASSET
   }
 };
 
+/**
+ * Return a pre-signed URL to download a private object.
+ * @param keyPath
+ * @param expires: lifetime, in seconds, of the URL.
+ * @param bucketName
+ */
+export const s3SignedUrl = async (
+  keyPath: string,
+  expires: number,
+  bucketName: string = S3_ASSETS_BUCKET
+): Promise<string> => {
+  try {
+    return await s3.getSignedUrlPromise('getObject', { Bucket: bucketName, Key: keyPath, Expires: expires });
+  } catch (err) {
+    logger.error(err.message);
+    throw new S3Error(`Failed to sign URL for: ${keyPath}. ${err.message}`);
+  }
+};
+
 /**
  * Creates a new lifecycle configuration for the bucket or replaces an
  * existing lifecycle configuration.
@@ -20,7 +20,7 @@
 import AWS, { SNS } from 'aws-sdk';
 import makeError from 'make-error';
 
-import { AWS_REGION, SNS_TOPIC_MANAGER_ARN, SNS_TOPIC_WIPE_DATA_ARN } from '../config';
+import { AWS_REGION, SNS_TOPIC_MANAGER_ARN, SNS_TOPIC_METRIC_JOB_ARN, SNS_TOPIC_WIPE_DATA_ARN } from '../config';
 import { getLogger } from '../logging';
 
 const sns = new AWS.SNS({ region: AWS_REGION });
@@ -45,6 +45,10 @@ export interface SNSComputeMetricEvent {
   resources?: string[];
 }
 
+export interface SNSMetricJobEvent {
+  jobId: string;
+}
+
 export interface SNSWipeDataEvent {
   type: WipeDataEnum; // type-guard;
 }
@@ -104,3 +108,10 @@ export const triggerWipeDataEvent = async (
 ): Promise<string> => {
   return publishSNSMessage(message, SNS_TOPIC_WIPE_DATA_ARN, raiseError);
 };
+
+export const triggerMetricJobEvent = async (
+  message: SNSMetricJobEvent,
+  raiseError: boolean = true
+): Promise<string> => {
+  return publishSNSMessage(message, SNS_TOPIC_METRIC_JOB_ARN, raiseError);
+};
@@ -24,14 +24,16 @@ import urljoin from 'url-join';
 import { NODE_ENV, S3_ASSETS_PATH_PREFIX } from '../config';
 import { getLogger } from '../logging';
 
+import { DateRange } from './earthengine';
 import { fetchURLToStream } from './fetch';
-import { createLifecyclePolicy, s3KeyExists, s3StreamUpload } from './s3';
+import { createLifecyclePolicy, s3KeyExists, s3SignedUrl, s3StreamUpload } from './s3';
 
 const logger = getLogger();
 
 const StorageServiceError = makeError('StorageServiceError');
 
 const MAP_TILES_PREFIX = 'map-tiles';
+const EXPORTS_PREFIX = 'exports';
 
 /**
  * Slippy map tilenames.
@@ -47,10 +49,11 @@ export const uploadMapTile = async (
   zoom: number,
   x: number,
   y: number,
-  metadata: { [key: string]: string } = {}
+  metadata: { [key: string]: string } = {},
+  dateRange: DateRange = null
 ): Promise<{ resourceURL: string }> => {
   try {
-    const keyPath = encodeTileKey(layerId, mapId, zoom, x, y);
+    const keyPath = encodeTileKey(layerId, mapId, zoom, x, y, dateRange);
 
     const { stream, contentType } = await fetchURLToStream(tileUrl);
     const meta = await s3StreamUpload(stream, keyPath, contentType, metadata);
@@ -73,16 +76,18 @@ export const uploadMapTile = async (
  * @param zoom
  * @param x
  * @param y
+ * @param dateRange
  */
 export const existsMapTile = async (
   layerId: string,
   mapId: string,
   zoom: number,
   x: number,
-  y: number
+  y: number,
+  dateRange: DateRange = null
 ): Promise<{ resourceURL: string; metadata: { [key: string]: string } }> => {
   try {
-    const keyPath = encodeTileKey(layerId, mapId, zoom, x, y);
+    const keyPath = encodeTileKey(layerId, mapId, zoom, x, y, dateRange);
     const meta = await s3KeyExists(keyPath);
 
     if (meta) {
@@ -98,13 +103,14 @@ export const existsMapTile = async (
 
 /**
  * Encode tile keys based on Slippy Map file naming convention.
- * - format: <s3-prefix>/<map-tiles-prefix>/<layer-id>/<zoom>/<x-coord>/<y-coord>/tile_<tile-id>.png
+ * - format: <s3-prefix>/<map-tiles-prefix>/<layer-id>/<zoom>/<x-coord>/<y-coord>/tile_<tile-id>[_<start>_<end>].png
  * See: https://wiki.openstreetmap.org/wiki/Slippy_map_tilenames
  * @param layerId
  * @param mapId
  * @param zoom
  * @param x
  * @param y
+ * @param dateRange: time-enabled layers
  * @param pathPrefix
  */
 const encodeTileKey = (
@@ -113,17 +119,50 @@ const encodeTileKey = (
   zoom: number,
   x: number,
   y: number,
+  dateRange: DateRange = null,
   pathPrefix: string = MAP_TILES_PREFIX
 ): string => {
   const map = mapId.split('/').pop();
   const id = map.split('-')[0];
-  const name = ['tile_', id, '.png'].join('');
+  const time = dateRange ? ['_', dateRange.start, '_', dateRange.end].join('') : '';
+  const name = ['tile_', id, time, '.png'].join('');
 
   const path = urljoin(S3_ASSETS_PATH_PREFIX, pathPrefix, layerId, String(zoom), String(x), String(y), name);
 
   return path.startsWith('/') ? path.substr(1) : path; // remove prefix from S3 paths;
 };
 
+/**
+ * Copy an exported file into private storage.
+ * - format: <s3-prefix>/<exports-prefix>/<job-id>/<file-name>
+ * @param fileUrl
+ * @param headers: request headers, eg: authorization;
+ * @param jobId
+ * @param fileName
+ */
+export const uploadExportFile = async (
+  fileUrl: string,
+  headers: { [key: string]: string },
+  jobId: string,
+  fileName: string
+): Promise<string> => {
+  const path = urljoin(S3_ASSETS_PATH_PREFIX, EXPORTS_PREFIX, jobId, fileName);
+  const keyPath = path.startsWith('/') ? path.substr(1) : path; // remove prefix from S3 paths;
+
+  const { stream, contentType } = await fetchURLToStream(fileUrl, headers);
+  const meta = await s3StreamUpload(stream, keyPath, contentType, {}, undefined, 'private');
+
+  return meta.key;
+};
+
+/**
+ * Return a temporary download URL for an exported file.
+ * @param keyPath
+ * @param expires: lifetime, in seconds, of the URL.
+ */
+export const getExportFileURL = async (keyPath: string, expires: number): Promise<string> =>
+  s3SignedUrl(keyPath, expires);
+
 /**
  * Remove map tiles for specified layerIds.
  * @param layerIds
@@ -0,0 +1,112 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { get, isEmpty, isNil } from 'lodash';
+
+import { InvalidParameterError } from '../errors';
+
+import { CompositeType, DateRange } from './earthengine';
+
+export enum TimeIntervalEnum {
+  DAY = 'day',
+  MONTH = 'month',
+  YEAR = 'year',
+}
+
+export interface TimeDimension {
+  dates?: string[]; // available dates;
+  default?: string; // date used when none is requested;
+  interval?: TimeIntervalEnum; // period covered by a date, defaults to a day;
+  composite?: CompositeType; // reducer for the images matching the period, defaults to a mosaic;
+}
+
+export interface TimeParams {
+  date?: string;
+  start?: string;
+  end?: string;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (value: string, name: string): Date => {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!DATE_REGEX.test(value) || isNaN(date.getTime())) {
+    throw new InvalidParameterError(`Invalid format for parameter: ${name}`, 400);
+  }
+  return date;
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const advanceDate = (date: Date, interval: TimeIntervalEnum): Date => {
+  const next = new Date(date.getTime());
+  switch (interval) {
+    case TimeIntervalEnum.YEAR:
+      next.setUTCFullYear(next.getUTCFullYear() + 1);
+      break;
+    case TimeIntervalEnum.MONTH:
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+    default:
+      next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+};
+
+/**
+ * Return the time dimension of a layer config, layers with a time dimension reference an ImageCollection.
+ * @param config
+ */
+export const getTimeDimension = (config: any): TimeDimension => {
+  const timeDimension = get(config, 'source.timeDimension');
+  return isEmpty(timeDimension) ? null : timeDimension;
+};
+
+/**
+ * Resolve the date range of the images to composite from the request parameters.
+ *
+ * A date covers the interval of the time dimension, start & end delimit a custom range.
+ * Without parameters, the default date of the time dimension is used, if any.
+ * @param timeDimension
+ * @param params
+ */
+export const resolveDateRange = (timeDimension: TimeDimension, params: TimeParams = {}): DateRange => {
+  const { start, end } = params;
+
+  if (!isNil(start) || !isNil(end)) {
+    if (isNil(start) || isNil(end)) {
+      throw new InvalidParameterError('Parameters start and end are required together.', 400);
+    }
+    if (parseDate(start, 'start') >= parseDate(end, 'end')) {
+      throw new InvalidParameterError('Parameter start must be before end.', 400);
+    }
+    return { start, end };
+  }
+
+  const date = params.date || timeDimension.default;
+  if (!date) {
+    return null; // composite of the entire collection;
+  }
+  if (timeDimension.dates && timeDimension.dates.length && !timeDimension.dates.includes(date)) {
+    throw new InvalidParameterError(`Date not available for layer: ${date}`, 400);
+  }
+  const interval = timeDimension.interval || TimeIntervalEnum.DAY;
+
+  return { start: date, end: formatDate(advanceDate(parseDate(date, 'date'), interval)) };
+};
@@ -0,0 +1,166 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import * as turf from '@turf/turf';
+import geojsonvt from 'geojson-vt';
+import { Redis } from 'ioredis';
+import makeError from 'make-error';
+import vtpbf from 'vt-pbf';
+
+import { getLogger } from '../logging';
+
+import { WithCache } from './base/WithCache';
+
+export const VectorTileError = makeError('VectorTileError');
+
+const logger = getLogger('vector-tile-service');
+
+enum CacheKeys {
+  VECTOR_TILE = 'VECTOR_TILE',
+}
+
+export const MVT_CONTENT_TYPE = 'application/vnd.mapbox-vector-tile';
+export const MVT_EXTENT = 4096;
+export const MVT_BUFFER = 64; // tile units;
+
+export interface VectorTileFeature {
+  geometry: turf.Geometry | turf.GeometryCollection; // EPSG:4326;
+  properties: { [key: string]: string | number | boolean };
+}
+
+export interface VectorTileOptions {
+  extent?: number;
+  buffer?: number;
+  tolerance?: number; // simplification tolerance, in tile units;
+}
+
+const tileToLon = (x: number, z: number): number => (x / Math.pow(2, z)) * 360 - 180;
+
+const tileToLat = (y: number, z: number): number => {
+  const n = Math.PI - (2 * Math.PI * y) / Math.pow(2, z);
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+};
+
+/**
+ * Takes the Slippy Map tile coordinates and returns the bbox of the tile.
+ * See: https://wiki.openstreetmap.org/wiki/Slippy_map_tilenames
+ * @param z
+ * @param x
+ * @param y
+ * @param buffer: tile buffer, in tile units
+ * @param extent
+ */
+export const tileToBbox = (
+  z: number,
+  x: number,
+  y: number,
+  buffer: number = 0,
+  extent: number = MVT_EXTENT
+): turf.BBox => {
+  const b = buffer / extent;
+  return [
+    Math.max(tileToLon(x - b, z), -180),
+    Math.max(tileToLat(y + 1 + b, z), -90),
+    Math.min(tileToLon(x + 1 + b, z), 180),
+    Math.min(tileToLat(y - b, z), 90),
+  ];
+};
+
+/**
+ * Create a Mapbox Vector Tile with a single layer from GeoJSON geometries.
+ * Geometries are clipped to the (buffered) tile, simplified for the zoom level and projected to tile coordinates.
+ * See: https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ * @param name: layer name
+ * @param features: features to include in the tile
+ * @param z
+ * @param x
+ * @param y
+ * @param options
+ */
+export const createVectorTile = (
+  name: string,
+  features: VectorTileFeature[],
+  z: number,
+  x: number,
+  y: number,
+  options: VectorTileOptions = {}
+): Buffer => {
+  const opts: VectorTileOptions = { extent: MVT_EXTENT, buffer: MVT_BUFFER, tolerance: 1, ...options };
+  try {
+    const collection = turf.featureCollection(
+      features
+        .filter(({ geometry }) => !!geometry)
+        .map(({ geometry, properties }) => turf.feature(<any>geometry, properties))
+    );
+    // the index is only built for the requested tile, tiles are sliced on demand down to the zoom level;
+    const index = geojsonvt(collection, {
+      maxZoom: z,
+      indexMaxZoom: 0,
+      indexMaxPoints: 0,
+      extent: opts.extent,
+      buffer: opts.buffer,
+      tolerance: opts.tolerance,
+    });
+    const tile = index.getTile(z, x, y) || { features: [] };
+
+    return Buffer.from(vtpbf.fromGeojsonVt({ [name]: tile }, { version: 2, extent: opts.extent }));
+  } catch (err) {
+    logger.error(err);
+    throw new VectorTileError('Could not create vector tile.');
+  }
+};
+
+export class VectorTileService extends WithCache {
+  constructor(cache?: Redis, cacheTTL?: number) {
+    super(cache, cacheTTL);
+  }
+
+  /**
+   * Return the encoded vector tile, loading the features on cache miss.
+   *
+   * Results are cached by the tile identifier, which should change with the tile contents.
+   * @param name: layer name
+   * @param tileHash: tile identifier
+   * @param loadFeatures: features to include in the tile
+   * @param z
+   * @param x
+   * @param y
+   */
+  async getTile(
+    name: string,
+    tileHash: string,
+    loadFeatures: () => Promise<VectorTileFeature[]>,
+    z: number,
+    x: number,
+    y: number
+  ): Promise<Buffer> {
+    const cacheKey = this.mkCacheKey(CacheKeys.VECTOR_TILE, name, z, x, y, tileHash);
+
+    const hit: string = await this.fromCache(cacheKey);
+    if (hit) {
+      return Buffer.from(hit, 'base64');
+    }
+    const features = await loadFeatures();
+    const tile = createVectorTile(name, features, z, x, y);
+
+    await this.toCache(cacheKey, tile.toString('base64'));
+
+    return tile;
+  }
+}
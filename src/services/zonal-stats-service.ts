@@ -0,0 +1,160 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Redis } from 'ioredis';
+import { get, isNil, uniq } from 'lodash';
+
+import { ParameterRequiredError } from '../errors';
+import { getLogger } from '../logging';
+import { LocationTypeEnum } from '../models';
+
+import { WithCache } from './base/WithCache';
+import { reduceImageRegion, ReduceRegionOptions, ReducerType } from './earthengine';
+
+const logger = getLogger('zonal-stats-service');
+
+enum CacheKeys {
+  ZONAL_STATS = 'ZONAL_STATS',
+}
+
+export interface ZonalStats {
+  id: string;
+  layer: string;
+  location: string;
+  layerVersion: number;
+  locationVersion: number;
+  reducers: ReducerType[];
+  percentiles?: number[];
+  scale?: number;
+  stats: { [key: string]: any };
+}
+
+/**
+ * Extract the reducer options from the request query parameters.
+ *
+ * Supported parameters: reducers=mean,sum,histogram,percentiles, percentiles=25,50,75, scale.
+ * @param query
+ */
+export const parseStatsOptions = (query: any): ReduceRegionOptions => {
+  const parseList = (value: string): string[] =>
+    String(value)
+      .split(',')
+      .map((e) => e.trim())
+      .filter((e) => !!e);
+
+  const reducers = uniq(parseList(get(query, 'reducers', ReducerType.MEAN))) as ReducerType[];
+  const options: ReduceRegionOptions = { reducers };
+
+  if (reducers.includes(ReducerType.PERCENTILES)) {
+    const percentiles = parseList(get(query, 'percentiles', '25,50,75')).map(Number);
+    options.percentiles = uniq(percentiles).sort((a, b) => a - b);
+  }
+  const scale = get(query, 'scale');
+  if (!isNil(scale)) {
+    options.scale = Number(scale);
+  }
+  return options;
+};
+
+/**
+ * Check if the statistics of a layer over a location can be cached.
+ * Collections are excluded since their geometry is computed from nested references.
+ * @param layer
+ * @param location
+ */
+export const isStatsCacheable = (
+  layer: { id?: any; version?: number },
+  location: { id?: any; type?: string; version?: number }
+): boolean => location.type !== LocationTypeEnum.COLLECTION && !isNil(layer.version) && !isNil(location.version);
+
+export class ZonalStatsService extends WithCache {
+  constructor(cache?: Redis, cacheTTL?: number) {
+    super(cache, cacheTTL);
+  }
+
+  /**
+   * Cache key of the statistics, by layer id & version, location id & version and reducer options.
+   * @param layer
+   * @param location
+   * @param options
+   */
+  mkStatsCacheKey(
+    layer: { id?: any; version?: number },
+    location: { id?: any; version?: number },
+    options: ReduceRegionOptions
+  ): string {
+    const { reducers, percentiles, scale } = options;
+    return this.mkCacheKey(
+      CacheKeys.ZONAL_STATS,
+      layer.id,
+      layer.version,
+      location.id,
+      location.version,
+      reducers.join(','),
+      percentiles && percentiles.join(','),
+      scale
+    );
+  }
+
+  /**
+   * Compute the statistics of the layer image over the location geometry.
+   *
+   * Results are cached by layer id & version and location id & version, collections are
+   * excluded from caching since their geometry is computed from nested references.
+   * @param layer
+   * @param location
+   * @param options
+   */
+  async compute(
+    layer: { id?: any; version?: number; config?: any },
+    location: { id?: any; type?: string; version?: number; geojson?: any },
+    options: ReduceRegionOptions
+  ): Promise<ZonalStats> {
+    const assetId = get(layer.config, 'source.assetId');
+    if (!assetId) {
+      throw new ParameterRequiredError('Required config property "source.assetId" missing', 400);
+    }
+    const { reducers, percentiles, scale } = options;
+
+    const isCacheable = isStatsCacheable(layer, location);
+    const cacheKey = this.mkStatsCacheKey(layer, location, options);
+
+    let stats = isCacheable ? await this.fromCache(cacheKey) : null;
+    if (!stats) {
+      stats = await reduceImageRegion(assetId, location.geojson, options);
+      logger.debug('[compute] computed statistics for: %s and: %s', layer.id, location.id);
+
+      if (isCacheable) {
+        await this.toCache(cacheKey, stats);
+      }
+    }
+
+    return {
+      id: [layer.id, location.id].join(':'),
+      layer: layer.id,
+      location: location.id,
+      layerVersion: layer.version,
+      locationVersion: location.version,
+      reducers,
+      percentiles,
+      scale,
+      stats,
+    };
+  }
+}
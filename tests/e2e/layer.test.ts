@@ -22,6 +22,7 @@ import request from 'supertest';
 import { expressFactory } from '../../src/middlewares';
 import { contextHttp } from '../../src/middlewares/context';
 import { jwtError, jwtRSA } from '../../src/middlewares/jwt';
+import { LayerTypeEnum } from '../../src/models';
 import LayerRouter from '../../src/routers/LayerRouter';
 
 import layer from './data/layer';
@@ -117,6 +118,118 @@ describe('POST /management/layers', () => {
   });
 });
 
+describe('POST /management/layers/validate', () => {
+  it('responds with 200 when the config is valid', async () => {
+    const { type, provider, config } = layer.create();
+
+    await request(app)
+      .post(`/management/layers/validate`)
+      .send({ type, provider, config })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+  });
+
+  it('responds with 400 when the config is invalid', async () => {
+    const res = await request(app)
+      .post(`/management/layers/validate`)
+      .send({ type: 'raster', provider: 'gee', config: { source: { assetid: 'typo' } } })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+
+    expect(res.body.errors[0].source.pointer).toEqual('/data/attributes/config/source/assetId');
+  });
+});
+
+describe('POST /management/layers/:id/clone', () => {
+  it('responds with 200 when params are valid', async () => {
+    const res = await request(app)
+      .post(`/management/layers/${newLayer.id}/clone`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(res.body.data.id).not.toEqual(newLayer.id);
+    expect(res.body.data.attributes.slug).not.toEqual(newLayer.slug);
+
+    await layer.remove(res.body.data.id);
+  });
+
+  it('responds with 200 without the private references of a shared layer', async () => {
+    const shared = { organization: 'OTHER', publicResource: true, published: true };
+    const publicRef = await layer.save(layer.create(shared));
+    const privateRef = await layer.save(layer.create({ ...shared, publicResource: false, published: false }));
+    const group = await layer.save(
+      layer.create({ ...shared, type: LayerTypeEnum.GROUP, references: [publicRef.id, privateRef.id] })
+    );
+
+    const res = await request(app)
+      .post(`/management/layers/${group.id}/clone`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const clonedRefs = res.body.data.attributes.references;
+    expect(clonedRefs.length).toEqual(1);
+    expect(clonedRefs).not.toContain(privateRef.id);
+
+    await Promise.all([res.body.data.id, ...clonedRefs, group.id, publicRef.id, privateRef.id].map(layer.remove));
+  });
+
+  it('responds with 404 when id does not exist', async () => {
+    await request(app)
+      .post(`/management/layers/${newLayer.id.split('').reverse().join('')}/clone`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(404);
+  });
+});
+
+describe('POST /management/layers/:id/references', () => {
+  it('responds with 200 when params are valid', async () => {
+    const group = await layer.save(layer.create({ type: LayerTypeEnum.GROUP }));
+
+    const res = await request(app)
+      .post(`/management/layers/${group.id}/references`)
+      .send({ operation: 'add', references: [newLayer.id] })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(res.body.data.attributes.references).toEqual([newLayer.id]);
+
+    await layer.remove(group.id);
+  });
+
+  it('responds with 400 when the group references itself', async () => {
+    const group = await layer.save(layer.create({ type: LayerTypeEnum.GROUP }));
+
+    await request(app)
+      .post(`/management/layers/${group.id}/references`)
+      .send({ operation: 'add', references: [group.id] })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+
+    await layer.remove(group.id);
+  });
+
+  it('responds with 400 when the layer is not a group', async () => {
+    await request(app)
+      .post(`/management/layers/${newLayer.id}/references`)
+      .send({ operation: 'add', references: [newLayer.id] })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
 describe('GET /management/layers/:id', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
@@ -153,6 +266,26 @@ describe('GET /layers/:id', () => {
   });
 });
 
+describe('GET /layers/:id/legend', () => {
+  it('responds with 200 when params are valid', async () => {
+    const res = await request(app)
+      .get(`/layers/${newLayer.id}/legend`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(res.body.data.attributes.source).toEqual('sld');
+  });
+
+  it('responds with 404 when id does not exist', async () => {
+    await request(app)
+      .get(`/layers/${newLayer.id.split('').reverse().join('')}/legend`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(404);
+  });
+});
+
 describe('PUT /management/layers/:id', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
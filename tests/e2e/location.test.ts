@@ -22,6 +22,7 @@ import request from 'supertest';
 import { expressFactory } from '../../src/middlewares';
 import { contextHttp } from '../../src/middlewares/context';
 import { jwtError, jwtRSA } from '../../src/middlewares/jwt';
+import { LocationTypeEnum } from '../../src/models';
 import LocationRouter from '../../src/routers/LocationRouter';
 
 import location from './data/location';
@@ -59,6 +60,119 @@ describe('GET /locations', () => {
   });
 });
 
+describe('GET /locations spatial filters', () => {
+  it('responds with matching locations when filtered by bbox', async () => {
+    const res = await request(app)
+      .get(`/locations?filter=slug==${newLocation.slug}&bbox=22,46,25,48`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+    expect(res.body.data.length).toEqual(1);
+
+    const empty = await request(app)
+      .get(`/locations?filter=slug==${newLocation.slug}&bbox=0,0,1,1`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+    expect(empty.body.data.length).toEqual(0);
+  });
+
+  it('responds with matching locations when filtered by point and radius', async () => {
+    const res = await request(app)
+      .get(`/locations?filter=slug==${newLocation.slug}&point=23.5,46.9&near=21,46&radiusKm=300`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+    expect(res.body.data.length).toEqual(1);
+  });
+
+  it('responds with 400 when spatial params are invalid', async () => {
+    await request(app)
+      .get(`/locations?bbox=10,10,0,0`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+
+    await request(app)
+      .get(`/locations?near=23,46`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
+describe('POST /locations/intersect', () => {
+  it('responds with 200 and intersection stats when params are valid', async () => {
+    const res = await request(app)
+      .post(`/locations/intersect`)
+      .send({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [22, 46],
+            [25, 46],
+            [25, 48],
+            [22, 48],
+            [22, 46],
+          ],
+        ],
+      })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const match = res.body.data.find((item) => item.id === newLocation.id);
+    expect(match.attributes.$intersection.areaKm2).toBeGreaterThan(0);
+    expect(res.body.meta.areaKm2).toBeGreaterThan(0);
+  });
+
+  it('responds with 400 when geometry has no area', async () => {
+    await request(app)
+      .post(`/locations/intersect`)
+      .send({ type: 'Point', coordinates: [23, 47] })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
+describe('POST /locations collections', () => {
+  const createCollection = (data: object) =>
+    request(app)
+      .post(`/locations`)
+      .send({ name: 'test collection', type: 'Collection', ...data })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/);
+
+  it('responds with 200 and a dissolved geometry when dissolve is enabled', async () => {
+    const res = await createCollection({ locations: [newLocation.id], dissolve: true }).expect(200);
+
+    expect(res.body.data.attributes.dissolve).toBe(true);
+    expect(res.body.data.attributes.areaKm2).toBeCloseTo(newLocation.areaKm2, 2);
+
+    await location.remove(res.body.data.id);
+  });
+
+  it('responds with 400 when nested collections are circular', async () => {
+    const inner = await createCollection({ locations: [newLocation.id] }).expect(200);
+    const outer = await createCollection({ locations: [inner.body.data.id] }).expect(200);
+
+    await request(app)
+      .put(`/locations/${inner.body.data.id}`)
+      .send({ locations: [newLocation.id, outer.body.data.id] })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+
+    await location.remove(outer.body.data.id);
+    await location.remove(inner.body.data.id);
+  });
+});
+
 describe('GET /management/locations', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
@@ -117,6 +231,115 @@ describe('POST /management/locations', () => {
   });
 });
 
+describe('POST /management/locations geometry validation', () => {
+  const bowtie = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [22, 46],
+        [23, 47],
+        [23, 46],
+        [22, 47],
+        [22, 46],
+      ],
+    ],
+  };
+
+  it('responds with 400 when geometry is self-intersecting', async () => {
+    const res = await request(app)
+      .post(`/management/locations`)
+      .send(location.create({ geojson: bowtie }))
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+
+    expect(res.body.errors[0].source.pointer).toEqual('/data/attributes/geojson/features/0/geometry');
+  });
+
+  it('responds with 200 and the applied repairs when repair is enabled', async () => {
+    const res = await request(app)
+      .post(`/management/locations?repair=true`)
+      .send(location.create({ geojson: bowtie }))
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(res.body.meta.repairs[0].repairs).toContain('unkink');
+
+    await location.remove(res.body.data.id);
+  });
+});
+
+describe('POST /management/locations/import', () => {
+  it('responds with 200 and a per-feature report when params are valid', async () => {
+    const [feature] = newLocation.geojson.features;
+
+    const res = await request(app)
+      .post(`/management/locations/import`)
+      .send({
+        geojson: {
+          type: 'FeatureCollection',
+          features: [
+            { ...feature, properties: { title: 'imported location', code: newLocation.slug } },
+            { ...feature, properties: { title: 'invalid location', kind: 'x' } },
+          ],
+        },
+        mapping: { name: 'title', slug: 'code', type: 'kind' },
+        type: newLocation.type,
+      })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const [updated, failed] = res.body.data.attributes.results;
+
+    expect(updated).toMatchObject({ index: 0, status: 'updated', id: newLocation.id });
+    expect(failed).toMatchObject({ index: 1, status: 'failed' });
+    expect(failed.errors[0].source.pointer).toEqual('/data/attributes/type');
+  });
+
+  it('responds with 400 when geojson is not a FeatureCollection', async () => {
+    await request(app)
+      .post(`/management/locations/import`)
+      .send({ geojson: newLocation.geojson.features[0] })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
+describe('GET /management/locations/export', () => {
+  it('responds with 200 when format is geojson', async () => {
+    await request(app)
+      .get(`/management/locations/export?format=geojson`)
+      .expect('Content-Type', /application\/geo\+json/)
+      .expect(200);
+  });
+
+  it('responds with 200 when format is csv', async () => {
+    const res = await request(app)
+      .get(`/management/locations/export?format=csv&filter=slug==${newLocation.slug}`)
+      .expect('Content-Type', /text\/csv/)
+      .expect(200);
+
+    const [header, row] = res.text.split('\r\n');
+    expect(header.split(',')).toContain('geometry');
+    expect(row).toContain('POLYGON ((');
+  });
+
+  it('responds with 400 when format is invalid', async () => {
+    await request(app)
+      .get(`/management/locations/export?format=x`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
 describe('GET /management/locations/:id', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
@@ -144,6 +367,27 @@ describe('GET /locations/:id', () => {
       .expect(200);
   });
 
+  it('responds with 200 when geometry is simplified', async () => {
+    const res = await request(app)
+      .get(`/locations/${newLocation.id}?simplify[tolerance]=0.5&precision=2`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const [feature] = res.body.data.attributes.geojson.features;
+    const [ring] = feature.geometry.coordinates;
+    expect(ring.length).toBeLessThan(newLocation.geojson.features[0].geometry.coordinates[0].length);
+    expect(ring[0]).toEqual(ring[0].map((c) => Number(c.toFixed(2))));
+  });
+
+  it('responds with 400 when simplify params are invalid', async () => {
+    await request(app)
+      .get(`/locations/${newLocation.id}?simplify[vertices]=2`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+
   it('responds with 404 when id does not exist', async () => {
     await request(app)
       .get(`/locations/${newLocation.id.split('').reverse().join('')}`)
@@ -175,6 +419,121 @@ describe('PUT /management/locations/:id', () => {
   });
 });
 
+describe('GET /management/locations/:id/revisions', () => {
+  it('responds with the revisions, diff and restore when params are valid', async () => {
+    await request(app)
+      .put(`/management/locations/${newLocation.id}`)
+      .send({ name: 'renamed location' })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect(200);
+
+    const res = await request(app)
+      .get(`/management/locations/${newLocation.id}/revisions`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const [revision] = res.body.data;
+    expect(revision.attributes).toMatchObject({ version: newLocation.version, name: newLocation.name });
+
+    const diff = await request(app)
+      .get(`/management/locations/${newLocation.id}/revisions/${newLocation.version}/diff`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+    expect(diff.body.data.attributes.$diff.changes).toEqual(['name']);
+
+    const restored = await request(app)
+      .post(`/management/locations/${newLocation.id}/revisions/${newLocation.version}/restore`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+    expect(restored.body.data.attributes.name).toEqual(newLocation.name);
+  });
+
+  it('responds with 404 when version does not exist', async () => {
+    await request(app)
+      .get(`/management/locations/${newLocation.id}/revisions/999/diff`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(404);
+  });
+});
+
+describe('GET /locations/:id/children', () => {
+  it('responds with the children, ancestors and parent suggestions when params are valid', async () => {
+    const geojson = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [20, 44],
+          [28, 44],
+          [28, 49],
+          [20, 49],
+          [20, 44],
+        ],
+      ],
+    };
+    const country = await location.save(location.create({ type: LocationTypeEnum.COUNTRY, isoCode: 'RO', geojson }));
+
+    try {
+      const suggestions = await request(app)
+        .get(`/management/locations/${newLocation.id}/parent-suggestions`)
+        .set('Accept', 'application/json')
+        .expect('Content-Type', /json/)
+        .expect(200);
+      expect(suggestions.body.data.map((e) => e.id)).toContain(country.id);
+
+      await request(app)
+        .put(`/management/locations/${newLocation.id}`)
+        .send({ parent: country.id, isoCode: 'RO-CJ' })
+        .set('Content-Type', 'application/json')
+        .set('Accept', 'application/json')
+        .expect(200);
+
+      const children = await request(app)
+        .get(`/locations/${country.id}/children`)
+        .set('Accept', 'application/json')
+        .expect('Content-Type', /json/)
+        .expect(200);
+      expect(children.body.data.map((e) => e.id)).toEqual([newLocation.id]);
+
+      const filtered = await request(app)
+        .get(`/locations?filter=parent==${country.id}`)
+        .set('Accept', 'application/json')
+        .expect('Content-Type', /json/)
+        .expect(200);
+      expect(filtered.body.data.map((e) => e.id)).toEqual([newLocation.id]);
+
+      const ancestors = await request(app)
+        .get(`/locations/${newLocation.id}/ancestors`)
+        .set('Accept', 'application/json')
+        .expect('Content-Type', /json/)
+        .expect(200);
+      expect(ancestors.body.data.map((e) => e.id)).toEqual([country.id]);
+
+      await request(app)
+        .put(`/management/locations/${country.id}`)
+        .send({ parent: newLocation.id })
+        .set('Content-Type', 'application/json')
+        .set('Accept', 'application/json')
+        .expect(400);
+    } finally {
+      await location.remove(country.id);
+    }
+  });
+
+  it('responds with 400 when isoCode is invalid', async () => {
+    await request(app)
+      .put(`/management/locations/${newLocation.id}`)
+      .send({ isoCode: 'XX-123' })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect(400);
+  });
+});
+
 describe('DELETE /management/locations/:id', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
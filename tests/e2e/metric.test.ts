@@ -70,6 +70,24 @@ describe('POST /management/metrics/:locationId/action', () => {
   });
 });
 
+describe('GET /metrics/aggregate', () => {
+  it('responds with 200 when params are valid', async () => {
+    await request(app)
+      .get(`/metrics/aggregate?slug=tree-loss&path=total&percentiles=10,50,90`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+  });
+
+  it('responds with 400 when the path is invalid', async () => {
+    await request(app)
+      .get(`/metrics/aggregate?slug=tree-loss&path=$total`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
 describe('GET /metrics/:locationId', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
@@ -80,6 +98,26 @@ describe('GET /metrics/:locationId', () => {
   });
 });
 
+describe('GET /metrics/:locationId/export', () => {
+  it('responds with 200 when format is csv', async () => {
+    const res = await request(app)
+      .get(`/metrics/${newLocation.id}/export?format=csv`)
+      .expect('Content-Type', /text\/csv/)
+      .expect(200);
+
+    const [header] = res.text.split('\r\n');
+    expect(header.split(',')).toContain('location.slug');
+  });
+
+  it('responds with 400 when format is invalid', async () => {
+    await request(app)
+      .get(`/metrics/${newLocation.id}/export?format=x`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
 describe('GET /metrics/:locationId/:metricId', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
@@ -90,6 +128,57 @@ describe('GET /metrics/:locationId/:metricId', () => {
   });
 });
 
+describe('PUT /management/locations/:id', () => {
+  it('marks the metrics as stale on shape change', async () => {
+    const { geojson }: any = location.create();
+    geojson.features[0].geometry.coordinates[0][1] = [22.9, 46.4];
+
+    await request(app)
+      .put(`/management/locations/${newLocation.id}`)
+      .send({ geojson })
+      .set('Content-Type', 'application/json')
+      .set('Accept', 'application/json')
+      .expect(200);
+
+    const res = await request(app)
+      .get(`/management/metrics/${newLocation.id}/${newMetric.id}`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(res.body.data.attributes.stale).toBe(true);
+  });
+});
+
+describe('GET /management/metrics/export', () => {
+  it('responds with 200 when format is ndjson', async () => {
+    await request(app)
+      .get(`/management/metrics/export?format=ndjson`)
+      .expect('Content-Type', /application\/x-ndjson/)
+      .expect(200);
+  });
+});
+
+describe('GET /management/metrics/jobs', () => {
+  it('responds with 200 when params are valid', async () => {
+    await request(app)
+      .get(`/management/metrics/jobs`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(200);
+  });
+});
+
+describe('GET /management/metrics/jobs/:id', () => {
+  it('responds with 404 when the job does not exist', async () => {
+    await request(app)
+      .get(`/management/metrics/jobs/${newLocation.id}`)
+      .set('Accept', 'application/json')
+      .expect('Content-Type', /json/)
+      .expect(404);
+  });
+});
+
 describe('GET /management/metrics/:locationId', () => {
   it('responds with 200 when params are valid', async () => {
     await request(app)
@@ -0,0 +1,61 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { MongooseQueryFilter, MongooseQueryParser } from '../../src/helpers/mongoose';
+
+describe('MongooseQueryParser', () => {
+  const orFilter = [
+    [
+      { key: 'organization', op: 'in', value: ['MARAPP'] },
+      { key: 'publicResource', op: '==', value: true },
+    ],
+  ] as MongooseQueryFilter[];
+  const wildcardFilter: MongooseQueryFilter[] = [
+    { key: 'published', op: '==', value: true },
+    { key: '*.published', op: '==', value: true },
+  ];
+
+  it('merges wildcard filters into populated paths', () => {
+    const predefined = wildcardFilter.concat([{ key: 'organization', op: 'in', value: ['MARAPP'] }]);
+    const res = new MongooseQueryParser().parse({ include: 'references' }, { predefined });
+
+    expect(res.filter).toEqual({ published: { $eq: true }, organization: { $in: ['MARAPP'] } });
+    expect(res.populate).toEqual([{ path: 'references', match: { published: { $eq: true } } }]);
+  });
+
+  it('merges wildcard filters into populated paths when combined with or-filters', () => {
+    const predefined = wildcardFilter.concat(orFilter);
+    const res = new MongooseQueryParser().parse({ include: 'references' }, { predefined });
+
+    expect(res.filter).toEqual({
+      $and: [
+        { published: { $eq: true } },
+        { $or: [{ organization: { $in: ['MARAPP'] } }, { publicResource: { $eq: true } }] },
+      ],
+    });
+    expect(res.populate).toEqual([{ path: 'references', match: { published: { $eq: true } } }]);
+  });
+
+  it('excludes wildcard filters from the query without populated paths', () => {
+    const predefined = wildcardFilter.concat(orFilter);
+    const res = new MongooseQueryParser().parse({}, { predefined });
+
+    expect(JSON.stringify(res.filter)).not.toContain('*.published');
+  });
+});
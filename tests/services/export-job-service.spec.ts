@@ -0,0 +1,44 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { ExportJobStatusEnum } from '../../src/models/ExportJobModel';
+import { ExportTaskState } from '../../src/services/earthengine';
+import {
+  getExportFileNamePrefix,
+  getExportJobDownloadURLs,
+  resolveExportJobStatus,
+} from '../../src/services/export-job-service';
+
+describe('Export jobs', () => {
+  it('should resolve export job status', () => {
+    expect(resolveExportJobStatus(ExportTaskState.READY)).toEqual(ExportJobStatusEnum.RUNNING);
+    expect(resolveExportJobStatus(ExportTaskState.RUNNING)).toEqual(ExportJobStatusEnum.RUNNING);
+    expect(resolveExportJobStatus(ExportTaskState.COMPLETED)).toEqual(ExportJobStatusEnum.COMPLETED);
+    expect(resolveExportJobStatus(ExportTaskState.FAILED)).toEqual(ExportJobStatusEnum.FAILED);
+    expect(resolveExportJobStatus(ExportTaskState.CANCELLED)).toEqual(ExportJobStatusEnum.FAILED);
+  });
+
+  it('should prefix exported files by job', () => {
+    expect(getExportFileNamePrefix('j1')).toEqual('exports/j1/export');
+  });
+
+  it('should sign download URLs of completed jobs only', async () => {
+    expect(await getExportJobDownloadURLs({ status: ExportJobStatusEnum.RUNNING, files: ['a.tif'] })).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { Readable, Transform } from 'stream';
+
+import { createMetricExportTransform, ExportFormatEnum } from '../../src/services/export-service';
+
+const exportDocs = async (transform: Transform, docs: any[]): Promise<string> => {
+  let output = '';
+  transform.on('data', (chunk) => (output += chunk));
+  await new Promise((resolve, reject) => Readable.from(docs).pipe(transform).on('end', resolve).on('error', reject));
+  return output;
+};
+
+describe('Exports', () => {
+  const docs = [
+    { id: 'm1', slug: 'tree-loss', version: 1, location: { id: 'l1', slug: 'a' }, metric: { total: 10 } },
+    { id: 'm2', slug: 'land-cover', version: 2, location: { id: 'l2', slug: 'b' }, metric: { classes: { forest: 5 } } },
+  ];
+
+  it('should export metrics of different shapes under the selected columns', async () => {
+    const output = await exportDocs(createMetricExportTransform(ExportFormatEnum.CSV, ['total', 'classes']), docs);
+    const [header, ...rows] = output.split('\r\n').filter((line) => !!line);
+
+    expect(header).toEqual(
+      'id,slug,version,locationVersion,stale,createdAt,updatedAt,location.id,location.slug,location.name,location.version,metric.total,metric.classes'
+    );
+    expect(rows).toEqual(['m1,tree-loss,1,,,,,l1,a,,,10,', 'm2,land-cover,2,,,,,l2,b,,,,"{""forest"":5}"']);
+  });
+
+  it('should require the selected columns for CSV exports', () => {
+    expect(() => createMetricExportTransform(ExportFormatEnum.CSV)).toThrow('"fields"');
+    expect(() => createMetricExportTransform(ExportFormatEnum.NDJSON)).not.toThrow();
+  });
+});
@@ -17,13 +17,30 @@
   specific language governing permissions and limitations under the License.
 */
 
+import * as turf from '@turf/turf';
+import * as fs from 'fs';
+import * as path from 'path';
+
 import {
   computeAreaKm2,
+  computeBboxPolygon,
+  computeCirclePolygon,
+  computeCompactness,
+  computeIntersectionAreaKm2,
+  computePerimeterKm,
   computeShapeBbox,
   computeShapeCentroid,
+  computeVertexCount,
+  dissolveGeojson,
   GeoComputeError,
+  geojsonToGeometry,
+  geometryToWKT,
   mergeGeojson,
   normalizeGeojson,
+  repairGeojson,
+  simplifyGeojson,
+  truncateGeojson,
+  validateGeojson,
 } from '../../src/services/geospatial';
 import { readFile } from '../util';
 
@@ -201,4 +218,286 @@ describe('Geospatial', () => {
     const featureCollection2 = mergeGeojson([paris, china, canada, russia]);
     expect(featureCollection2.features.length).toEqual(150);
   });
+
+  it('should combine GeoJSON object into a single geometry', () => {
+    const geometry1 = geojsonToGeometry(normalizeGeojson(polygon));
+    expect(geometry1).toEqual(polygon);
+
+    const geometry2 = geojsonToGeometry(paris);
+    expect(geometry2.type).toEqual('GeometryCollection');
+    expect((<any>geometry2).geometries.length).toEqual(20);
+  });
+
+  it('should convert geometries to WKT', () => {
+    expect(geometryToWKT({ type: 'Point', coordinates: [30, 10] })).toEqual('POINT (30 10)');
+    expect(
+      geometryToWKT({
+        type: 'LineString',
+        coordinates: [
+          [30, 10],
+          [10, 30],
+          [40, 40],
+        ],
+      })
+    ).toEqual('LINESTRING (30 10, 10 30, 40 40)');
+    expect(
+      geometryToWKT({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [30, 10],
+            [40, 40],
+            [20, 40],
+            [10, 20],
+            [30, 10],
+          ],
+        ],
+      })
+    ).toEqual('POLYGON ((30 10, 40 40, 20 40, 10 20, 30 10))');
+    expect(
+      geometryToWKT({
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [30, 20],
+              [45, 40],
+              [10, 40],
+              [30, 20],
+            ],
+          ],
+          [
+            [
+              [15, 5],
+              [40, 10],
+              [10, 20],
+              [5, 10],
+              [15, 5],
+            ],
+          ],
+        ],
+      })
+    ).toEqual('MULTIPOLYGON (((30 20, 45 40, 10 40, 30 20)), ((15 5, 40 10, 10 20, 5 10, 15 5)))');
+    expect(
+      geometryToWKT(<any>{
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', coordinates: [40, 10] },
+          {
+            type: 'LineString',
+            coordinates: [
+              [10, 10],
+              [20, 20],
+            ],
+          },
+        ],
+      })
+    ).toEqual('GEOMETRYCOLLECTION (POINT (40 10), LINESTRING (10 10, 20 20))');
+
+    const toThrow = () => geometryToWKT(<any>{ type: 'Circle', coordinates: [] });
+    expect(toThrow).toThrow(GeoComputeError);
+  });
+
+  it('should simplify GeoJSON using a tolerance', () => {
+    const simplified = simplifyGeojson(paris, { tolerance: 0.005 });
+    expect(simplified.features.length).toEqual(paris.features.length);
+    expect(simplified.features[0].properties).toEqual(paris.features[0].properties);
+    expect(turf.coordAll(simplified).length).toBeLessThan(turf.coordAll(paris).length);
+
+    const unchanged = simplifyGeojson(paris, { tolerance: 0 });
+    expect(turf.coordAll(unchanged).length).toEqual(turf.coordAll(paris).length);
+  });
+
+  it('should simplify GeoJSON using a target vertex count', () => {
+    const simplified = simplifyGeojson(russia, { vertices: 5000 });
+    expect(simplified.features.length).toEqual(russia.features.length);
+    expect(turf.coordAll(simplified).length).toBeLessThan(turf.coordAll(russia).length);
+
+    const featureCollection = normalizeGeojson(polygon);
+    const unchanged = simplifyGeojson(featureCollection, { vertices: 1000 });
+    expect(unchanged).toEqual(featureCollection);
+  });
+
+  it('should preserve shared borders when simplified', () => {
+    const simplified = simplifyGeojson(paris, { tolerance: 0.005 });
+
+    const coordsOf = (feat) => turf.coordAll(feat).map((c) => c.join(','));
+    const [original, result] = [paris.features.map(coordsOf), simplified.features.map(coordsOf)];
+
+    // find two adjacent features;
+    const second = original.findIndex((coords, i) => i > 0 && coords.some((c) => original[0].includes(c)));
+    const shared = original[0].filter((c) => original[second].includes(c));
+    expect(shared.length).toBeGreaterThan(0);
+
+    // shared vertices are kept or removed in both features;
+    const keptFirst = shared.filter((c) => result[0].includes(c));
+    const keptSecond = shared.filter((c) => result[second].includes(c));
+    expect(keptFirst).toEqual(keptSecond);
+  });
+
+  it('should truncate GeoJSON coordinates precision', () => {
+    const truncated = truncateGeojson(normalizeGeojson(polygon), 2);
+    turf.coordAll(truncated).forEach(([x, y]) => {
+      expect(x).toEqual(Number(x.toFixed(2)));
+      expect(y).toEqual(Number(y.toFixed(2)));
+    });
+    expect(turf.coordAll(truncated).length).toBeLessThan(turf.coordAll(polygon).length);
+  });
+
+  it('should compute a densified bbox polygon', () => {
+    const polygon = computeBboxPolygon([-10, -5, 10, 5]);
+    const [ring] = polygon.coordinates;
+
+    expect(ring[0]).toEqual([-10, -5]);
+    expect(ring[ring.length - 1]).toEqual([-10, -5]);
+    expect(ring.length).toEqual(61); // 1 degree segments;
+    expect(computeShapeBbox(polygon)).toEqual([-10, -5, 10, 5]);
+    expect(turf.booleanClockwise(ring)).toBe(false);
+  });
+
+  it('should compute a circle polygon', () => {
+    const polygon = computeCirclePolygon([23, 46], 10);
+    const [ring] = polygon.coordinates;
+
+    expect(ring.length).toEqual(65);
+    expect(turf.booleanClockwise(ring)).toBe(false);
+    expect(computeAreaKm2(polygon)).toBeCloseTo(Math.PI * 100, -1);
+  });
+
+  it('should compute intersection area/km2', () => {
+    const first = turf.bboxPolygon([0, 0, 2, 2]);
+    const second = turf.bboxPolygon([1, 1, 3, 3]);
+    const expected = computeAreaKm2(turf.bboxPolygon([1, 1, 2, 2]));
+
+    expect(computeIntersectionAreaKm2(first, second)).toBeCloseTo(expected, 6);
+    expect(computeIntersectionAreaKm2(first, turf.bboxPolygon([5, 5, 6, 6]))).toEqual(0);
+
+    // overlapping input polygons are merged;
+    const overlapping = turf.featureCollection([first, turf.bboxPolygon([0.5, 0.5, 2, 2])]);
+    expect(computeIntersectionAreaKm2(overlapping, second)).toBeCloseTo(expected, 6);
+
+    const [minX, minY, maxX, maxY] = computeShapeBbox(paris);
+    const extent = turf.bboxPolygon([minX - 0.1, minY - 0.1, maxX + 0.1, maxY + 0.1]);
+    expect(computeIntersectionAreaKm2(extent, paris)).toBeCloseTo(computeAreaKm2(paris), 2);
+  });
+
+  it('should validate geometries', () => {
+    const valid = turf.featureCollection([turf.bboxPolygon([0, 0, 1, 1]), turf.point([1, 1])]);
+    expect(validateGeojson(valid)).toEqual([]);
+
+    const bowtie = turf.polygon([
+      [
+        [0, 0],
+        [1, 1],
+        [1, 0],
+        [0, 1],
+        [0, 0],
+      ],
+    ]);
+    const clockwise = turf.polygon([turf.bboxPolygon([0, 0, 1, 1]).geometry.coordinates[0].reverse()]);
+    const invalid = turf.featureCollection([turf.point([0, 0]), bowtie, clockwise, turf.point([200, 0])]);
+
+    const issues = validateGeojson(<any>invalid);
+    expect(issues.map((issue) => issue.index)).toEqual([1, 3]);
+    expect(issues[0].detail).toContain('self-intersecting');
+    expect(issues[1].detail).toContain('invalid position');
+
+    // rings touching at a shared vertex;
+    const touching = turf.polygon([
+      [
+        [0, 0],
+        [2, 0],
+        [2, 2],
+        [1, 0],
+        [0, 2],
+        [0, 0],
+      ],
+    ]);
+    expect(validateGeojson(turf.featureCollection([touching]))).toEqual([]);
+
+    const exterior = turf.bboxPolygon([0, 0, 4, 4]).geometry.coordinates[0];
+    const hole = turf.bboxPolygon([1, 1, 2, 2]).geometry.coordinates[0];
+    const sameWinding = turf.polygon([exterior, hole]);
+    expect(validateGeojson(turf.featureCollection([sameWinding]))[0].detail).toContain('same winding order');
+    expect(validateGeojson(turf.featureCollection([turf.polygon([exterior, [...hole].reverse()])]))).toEqual([]);
+  });
+
+  it('should repair geometries', () => {
+    const ring = [
+      [0, 0],
+      [0, 1],
+      [0, 1],
+      [1, 1],
+      [1, 0],
+    ];
+    const geojson = <any>(
+      turf.featureCollection([{ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [ring] } }])
+    );
+
+    const { geojson: repaired, repairs } = repairGeojson(geojson);
+    expect(validateGeojson(repaired)).toEqual([]);
+    expect(repairs).toEqual([{ index: 0, repairs: ['remove-duplicate-vertices', 'close-rings', 'rewind'] }]);
+    expect(geojson.features[0].geometry.coordinates[0]).toEqual(ring); // input is not mutated;
+
+    const bowtie = turf.featureCollection([
+      turf.polygon([
+        [
+          [0, 0],
+          [1, 1],
+          [1, 0],
+          [0, 1],
+          [0, 0],
+        ],
+      ]),
+    ]);
+    const unkinked = repairGeojson(<any>bowtie);
+    expect(unkinked.geojson.features[0].geometry.type).toEqual('MultiPolygon');
+    expect(unkinked.repairs[0].repairs).toContain('unkink');
+    expect(validateGeojson(unkinked.geojson)).toEqual([]);
+    expect(computeAreaKm2(unkinked.geojson)).toBeCloseTo(computeAreaKm2(turf.bboxPolygon([0, 0, 1, 1])) / 2, 0);
+  });
+
+  it('should validate fixture geometries', () => {
+    const fixtures = fs.readdirSync(path.resolve(__dirname, '../fixtures'));
+    expect(fixtures.length).toBeGreaterThan(0);
+
+    fixtures.forEach((fixture) => {
+      const issues = validateGeojson(normalizeGeojson(readFile(`./fixtures/${fixture}`)));
+      if (fixture === 'russia.geojson') {
+        // rings crossing each other, eg: holes crossing the exterior ring;
+        expect(issues.length).toBeGreaterThan(0);
+        expect(issues.every((issue) => issue.detail.endsWith('is self-intersecting'))).toBe(true);
+      } else {
+        expect({ fixture, issues }).toEqual({ fixture, issues: [] });
+      }
+    });
+  });
+
+  it('should dissolve overlapping polygons', () => {
+    const geojson = turf.featureCollection<any>([
+      turf.bboxPolygon([0, 0, 2, 2]),
+      turf.bboxPolygon([1, 1, 3, 3]),
+      turf.point([10, 10]),
+    ]);
+    const dissolved = dissolveGeojson(geojson);
+
+    expect(dissolved.features.map((feat) => feat.geometry.type)).toEqual(['Polygon', 'Point']);
+    expect(computeAreaKm2(dissolved)).toBeLessThan(computeAreaKm2(geojson));
+    expect(computeAreaKm2(dissolved)).toBeCloseTo(
+      computeAreaKm2(geojson) - computeAreaKm2(turf.bboxPolygon([1, 1, 2, 2])),
+      0
+    );
+  });
+
+  it('should compute shape perimeter, vertex count and compactness', () => {
+    const square = turf.bboxPolygon([0, 0, 1, 1]);
+    const circle = turf.circle([0, 0], 10, { steps: 64 });
+
+    expect(computePerimeterKm(square)).toBeCloseTo(4 * 111.2, 0);
+    expect(computePerimeterKm(turf.point([0, 0]))).toEqual(0);
+    expect(computeVertexCount(square)).toEqual(5);
+    expect(computeCompactness(square)).toBeCloseTo(Math.PI / 4, 2);
+    expect(computeCompactness(circle)).toBeCloseTo(1, 2);
+    expect(computeCompactness(turf.point([0, 0]))).toEqual(0);
+  });
 });
@@ -0,0 +1,72 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { JobStatusEnum, JobTaskStatusEnum } from '../../src/models/JobModel';
+import { getJobProgress, isJobFinished, resolveTaskStatus } from '../../src/services/job-service';
+
+describe('Jobs', () => {
+  it('should resolve task status', () => {
+    const task = (received: string[], rejected: string[] = []) => ({
+      location: 'l1',
+      status: JobTaskStatusEnum.DISPATCHED,
+      received,
+      rejected,
+    });
+
+    expect(resolveTaskStatus(task([]), ['a', 'b'])).toEqual(JobTaskStatusEnum.DISPATCHED);
+    expect(resolveTaskStatus(task(['a']), ['a', 'b'])).toEqual(JobTaskStatusEnum.DISPATCHED);
+    expect(resolveTaskStatus(task(['a', 'b']), ['a', 'b'])).toEqual(JobTaskStatusEnum.SUCCEEDED);
+    expect(resolveTaskStatus(task(['a'], ['b']), ['a', 'b'])).toEqual(JobTaskStatusEnum.FAILED);
+    expect(resolveTaskStatus(task(['a']))).toEqual(JobTaskStatusEnum.SUCCEEDED); // all metrics requested;
+    expect(resolveTaskStatus({ ...task(['a']), expected: ['a', 'b'] })).toEqual(JobTaskStatusEnum.DISPATCHED);
+    expect(resolveTaskStatus({ ...task(['a', 'b']), expected: ['a', 'b'] })).toEqual(JobTaskStatusEnum.SUCCEEDED);
+    expect(resolveTaskStatus({ ...task(['a']), status: JobTaskStatusEnum.CANCELLED })).toEqual(
+      JobTaskStatusEnum.CANCELLED
+    );
+  });
+
+  it('should compute job progress', () => {
+    const statuses = [
+      JobTaskStatusEnum.PENDING,
+      JobTaskStatusEnum.DISPATCHED,
+      JobTaskStatusEnum.SUCCEEDED,
+      JobTaskStatusEnum.SUCCEEDED,
+      JobTaskStatusEnum.FAILED,
+      JobTaskStatusEnum.CANCELLED,
+    ];
+    const job = {
+      organization: 'org',
+      status: JobStatusEnum.RUNNING,
+      tasks: statuses.map((status, i) => ({ location: `l${i}`, status })),
+    };
+
+    expect(getJobProgress(job)).toEqual({
+      total: 6,
+      pending: 1,
+      dispatched: 1,
+      succeeded: 2,
+      failed: 1,
+      cancelled: 1,
+      percentage: 66.67,
+    });
+    expect(getJobProgress({ organization: 'org', tasks: [] }).percentage).toEqual(100);
+    expect(isJobFinished(job)).toBe(false);
+    expect(isJobFinished({ ...job, status: JobStatusEnum.CANCELLED })).toBe(true);
+  });
+});
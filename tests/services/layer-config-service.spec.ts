@@ -0,0 +1,56 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { ValidationError } from '../../src/errors';
+import { assertLayerConfig, validateLayerConfig } from '../../src/services/layer-config-service';
+
+describe('Layer configs', () => {
+  it('should validate provider specific configs', () => {
+    expect(validateLayerConfig('gee', 'raster', { source: { assetId: 'projects/assets/layer' } })).toEqual([]);
+    expect(validateLayerConfig('gee', 'raster', { source: { assetid: 'typo' } })).toEqual([
+      { pointer: '/data/attributes/config/source/assetId', detail: 'Missing required property: assetId.' },
+    ]);
+    expect(validateLayerConfig('gee', 'raster', {})).toEqual([
+      { pointer: '/data/attributes/config/source', detail: 'Missing required property: source.' },
+    ]);
+  });
+
+  it('should validate tile URLs', () => {
+    const tiles = ['https://domain.com/tiles/{z}/{x}/{y}'];
+    expect(validateLayerConfig('mapbox', 'raster', { source: { tiles } })).toEqual([]);
+    expect(validateLayerConfig('mapbox', 'vector', { source: { url: 'mapbox://styles/layer' } })).toEqual([]);
+    expect(validateLayerConfig('mapbox', 'raster', { source: { tiles: ['https://domain.com/tiles'] } })).toEqual([
+      {
+        pointer: '/data/attributes/config/source/tiles/0',
+        detail: 'Expected a value matching: \\{z\\}.*\\{x\\}.*\\{y\\}.',
+      },
+    ]);
+  });
+
+  it('should validate shared properties of any combination', () => {
+    expect(validateLayerConfig('mapbox', 'group', { legendConfig: { items: [] } })).toEqual([]);
+    expect(validateLayerConfig('mapbox', 'group', { source: { minzoom: 30 } })).toEqual([
+      { pointer: '/data/attributes/config/source/minzoom', detail: 'Expected a value less than or equal to 24.' },
+    ]);
+  });
+
+  it('should raise validation errors', () => {
+    expect(() => assertLayerConfig('gee', 'raster', 'config')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,59 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { applyReferencesOperation, ReferencesOperationEnum } from '../../src/services/layer-group-service';
+
+describe('applyReferencesOperation', () => {
+  const current = ['a', 'b', 'c'];
+
+  it('adds references at the end or at a position', () => {
+    expect(applyReferencesOperation(current, ReferencesOperationEnum.ADD, ['d'])).toEqual(['a', 'b', 'c', 'd']);
+    expect(applyReferencesOperation(current, ReferencesOperationEnum.ADD, ['d', 'e'], 1)).toEqual([
+      'a',
+      'd',
+      'e',
+      'b',
+      'c',
+    ]);
+    expect(() => applyReferencesOperation(current, ReferencesOperationEnum.ADD, ['a'])).toThrow(
+      'References already included in group.'
+    );
+  });
+
+  it('removes references', () => {
+    expect(applyReferencesOperation(current, ReferencesOperationEnum.REMOVE, ['b'])).toEqual(['a', 'c']);
+    expect(() => applyReferencesOperation(current, ReferencesOperationEnum.REMOVE, ['x'])).toThrow(
+      'References not included in group.'
+    );
+  });
+
+  it('reorders references', () => {
+    expect(applyReferencesOperation(current, ReferencesOperationEnum.REORDER, ['c', 'a', 'b'])).toEqual([
+      'c',
+      'a',
+      'b',
+    ]);
+    expect(() => applyReferencesOperation(current, ReferencesOperationEnum.REORDER, ['c', 'a'])).toThrow(
+      'Reorder requires all the references included in group.'
+    );
+    expect(() => applyReferencesOperation(current, ReferencesOperationEnum.REORDER, ['c', 'a', 'a'])).toThrow(
+      'Duplicate values for parameter: references'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import {
+  LegendService,
+  LegendSourceEnum,
+  LegendTypeEnum,
+  parseColorExpression,
+  parsePaintLegend,
+  parseSLDLegend,
+} from '../../src/services/legend-service';
+
+describe('parseSLDLegend', () => {
+  it('parses the color map entries', () => {
+    const sld =
+      '<RasterSymbolizer><ColorMap type="intervals" extended="false"><ColorMapEntry color="#ffffcc" quantity="0" opacity="0.5" label="none"/><ColorMapEntry color="#f8f8bf" quantity="10"/></ColorMap></RasterSymbolizer>';
+
+    expect(parseSLDLegend(sld)).toEqual({
+      type: LegendTypeEnum.CHOROPLETH,
+      items: [
+        { color: '#ffffcc', quantity: 0, label: 'none', opacity: 0.5 },
+        { color: '#f8f8bf', quantity: 10, label: '10', opacity: 1 },
+      ],
+    });
+  });
+
+  it('defaults to a gradient legend', () => {
+    const sld = '<ColorMap><ColorMapEntry color="#000000" quantity="1"/></ColorMap>';
+
+    expect(parseSLDLegend(sld).type).toEqual(LegendTypeEnum.GRADIENT);
+  });
+});
+
+describe('parseColorExpression', () => {
+  it('parses literal colors', () => {
+    expect(parseColorExpression('#ff0000', 0.8)).toEqual({
+      type: LegendTypeEnum.BASIC,
+      items: [{ color: '#ff0000', opacity: 0.8 }],
+    });
+  });
+
+  it('parses interpolate, step & match expressions', () => {
+    const interpolate = ['interpolate', ['linear'], ['get', 'value'], 0, '#ffffff', 100, '#000000'];
+    expect(parseColorExpression(interpolate)).toEqual({
+      type: LegendTypeEnum.GRADIENT,
+      items: [
+        { color: '#ffffff', quantity: 0, label: '0' },
+        { color: '#000000', quantity: 100, label: '100' },
+      ],
+    });
+
+    const step = ['step', ['get', 'value'], '#ffffff', 50, '#000000'];
+    expect(parseColorExpression(step)).toEqual({
+      type: LegendTypeEnum.CHOROPLETH,
+      items: [{ color: '#ffffff' }, { color: '#000000', quantity: 50, label: '50' }],
+    });
+
+    const match = ['match', ['get', 'type'], 'forest', '#00ff00', ['lake', 'river'], '#0000ff', '#cccccc'];
+    expect(parseColorExpression(match)).toEqual({
+      type: LegendTypeEnum.BASIC,
+      items: [
+        { color: '#00ff00', label: 'forest' },
+        { color: '#0000ff', label: 'lake, river' },
+      ],
+    });
+  });
+
+  it('skips unsupported expressions', () => {
+    expect(parseColorExpression(['case', ['has', 'x'], '#ffffff', '#000000'])).toBeNull();
+  });
+});
+
+describe('parsePaintLegend', () => {
+  it('uses the paint definitions of the render layers', () => {
+    const config = {
+      render: { layers: [{ paint: { 'line-color': '#000000' } }, { paint: { 'fill-color': '#ffffff' } }] },
+    };
+
+    expect(parsePaintLegend(config).items).toEqual([{ color: '#ffffff' }]);
+    expect(parsePaintLegend({})).toBeNull();
+  });
+});
+
+describe('LegendService', () => {
+  it('prefers the SLD style', async () => {
+    const config = {
+      source: { styleType: 'sld', sldValue: '<ColorMap><ColorMapEntry color="#000000" quantity="1"/></ColorMap>' },
+      render: { layers: [{ paint: { 'fill-color': '#ffffff' } }] },
+    };
+    const legend = await new LegendService().getLegend({ id: 'layer', version: 1, config });
+
+    expect(legend.source).toEqual(LegendSourceEnum.SLD);
+    expect(legend.items).toEqual([{ color: '#000000', quantity: 1, label: '1', opacity: 1 }]);
+  });
+});
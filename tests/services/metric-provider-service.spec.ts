@@ -0,0 +1,54 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import * as turf from '@turf/turf';
+
+import {
+  getMetricProvider,
+  getMetricProviders,
+  parseEnabledProviders,
+} from '../../src/services/metric-provider-service';
+import { OperationTypeEnum } from '../../src/services/sns';
+
+describe('Metric providers', () => {
+  const enabled = parseEnabledProviders(' area, bbox,,unknown ');
+
+  it('should parse enabled providers', () => {
+    expect(enabled).toEqual(['area', 'bbox', 'unknown']);
+    expect(parseEnabledProviders('')).toEqual([]);
+  });
+
+  it('should return the enabled providers only', () => {
+    expect(getMetricProvider('area', OperationTypeEnum.CALCULATE, enabled).slug).toEqual('area');
+    expect(getMetricProvider('perimeter', OperationTypeEnum.CALCULATE, enabled)).toBeNull();
+    expect(getMetricProvider('unknown', OperationTypeEnum.CALCULATE, enabled)).toBeNull();
+    expect(getMetricProviders(OperationTypeEnum.CALCULATE, enabled).map((p) => p.slug)).toEqual(['area', 'bbox']);
+  });
+
+  it('should compute metrics from the location shape', () => {
+    const geojson = turf.featureCollection([turf.bboxPolygon([0, 0, 1, 1])]);
+
+    const area: any = getMetricProvider('area', OperationTypeEnum.CALCULATE, enabled).compute(geojson);
+    expect(area.unit).toEqual('km2');
+    expect(area.value).toBeGreaterThan(12000);
+
+    const bbox: any = getMetricProvider('bbox', OperationTypeEnum.CALCULATE, enabled).compute(geojson);
+    expect(bbox.value).toEqual([0, 0, 1, 1]);
+  });
+});
@@ -0,0 +1,142 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { checkJSONSchema } from '../../src/helpers/json-schema';
+import {
+  diffMetricVersions,
+  interpolatePercentiles,
+  MetricRetentionEnum,
+  parseRetentionPolicies,
+  percentileRanks,
+  selectExpiredVersions,
+  validateMetricPayload,
+} from '../../src/services/metric-service';
+
+const day = 24 * 60 * 60 * 1000;
+const now = new Date('2020-10-01T00:00:00Z');
+const versions = [0, 1, 2, 3].map((version) => ({
+  id: `m${version}`,
+  version,
+  createdAt: new Date(now.getTime() - (3 - version) * 10 * day),
+}));
+
+describe('Metrics', () => {
+  it('should parse retention policies', () => {
+    const policies = parseRetentionPolicies(
+      JSON.stringify({ a: { type: 'last', value: 2 }, b: { type: 'all' }, c: { type: 'age' }, d: { type: 'x' } })
+    );
+
+    expect(policies).toEqual({ a: { type: 'last', value: 2 }, b: { type: 'all' } });
+    expect(parseRetentionPolicies('{invalid')).toEqual({});
+  });
+
+  it('should select expired versions', () => {
+    const ids = (policy) => selectExpiredVersions(versions, policy, now).map((v) => v.id);
+
+    expect(ids({ type: MetricRetentionEnum.ALL })).toEqual([]);
+    expect(ids({ type: MetricRetentionEnum.LAST, value: 1 })).toEqual(['m2', 'm1', 'm0']);
+    expect(ids({ type: MetricRetentionEnum.LAST, value: 3 })).toEqual(['m0']);
+    expect(ids({ type: MetricRetentionEnum.AGE, value: 15 })).toEqual(['m1', 'm0']);
+    expect(ids({ type: MetricRetentionEnum.AGE, value: 0 })).toEqual(['m2', 'm1', 'm0']); // latest always kept;
+  });
+
+  it('should diff metric versions', () => {
+    const from = { version: 1, metric: { area: 100, loss: { total: 10, years: [1, 2] }, label: 'a' } };
+    const to = { version: 2, metric: { area: 150, loss: { total: 10, years: [1, 3] }, extra: true } };
+
+    expect(diffMetricVersions(from, to)).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      added: ['extra'],
+      removed: ['label'],
+      changes: [
+        { path: 'area', from: 100, to: 150, change: 50, changePercentage: 50 },
+        { path: 'loss.years.1', from: 2, to: 3, change: 1, changePercentage: 50 },
+      ],
+    });
+  });
+
+  it('should validate metric payloads', () => {
+    const jsonSchema: any = {
+      type: 'object',
+      required: ['area', 'years'],
+      additionalProperties: false,
+      properties: {
+        area: { type: 'number', minimum: 0 },
+        years: { type: 'array', items: { type: 'integer' }, uniqueItems: true },
+        label: { type: 'string', enum: ['a', 'b'] },
+      },
+    };
+    const definition = { slug: 'test', jsonSchema };
+
+    expect(validateMetricPayload(definition, { area: 1.5, years: [2001, 2002], label: 'a' })).toEqual([]);
+    expect(validateMetricPayload(definition, { area: -1, years: [2001, 2001.5], extra: 1 })).toEqual([
+      { pointer: '/metric/extra', detail: 'Unexpected property: extra.' },
+      { pointer: '/metric/area', detail: 'Expected a value greater than or equal to 0.' },
+      { pointer: '/metric/years/1', detail: 'Expected type integer, got number.' },
+    ]);
+    expect(validateMetricPayload(definition, 'invalid')).toEqual([
+      { pointer: '/metric', detail: 'Expected type object, got string.' },
+    ]);
+  });
+
+  it('should validate metric payloads with references and formats', () => {
+    const jsonSchema: any = {
+      type: 'object',
+      definitions: { year: { type: 'integer', minimum: 2000 } },
+      properties: {
+        years: { type: 'array', items: { $ref: '#/definitions/year' } },
+        updatedAt: { type: 'string', format: 'date-time' },
+      },
+    };
+    const definition = { slug: 'test', jsonSchema };
+
+    expect(validateMetricPayload(definition, { years: [2001], updatedAt: '2020-10-01T00:00:00Z' })).toEqual([]);
+    expect(validateMetricPayload(definition, { years: [1999], updatedAt: 'yesterday' })).toEqual([
+      { pointer: '/metric/years/0', detail: 'Expected a value greater than or equal to 2000.' },
+      { pointer: '/metric/updatedAt', detail: 'Expected a value of format: date-time.' },
+    ]);
+  });
+
+  it('should check JSON schemas', () => {
+    expect(checkJSONSchema({ type: 'object', properties: { a: { type: 'number' }, b: { $ref: '#' } } })).toEqual([]);
+    expect(checkJSONSchema({ type: 'object', properties: { a: { type: 'float' }, b: { pattern: '(' } } })).toEqual([
+      { pointer: '/properties/a/type', detail: 'Invalid value for keyword: type.' },
+      { pointer: '/properties/b/pattern', detail: 'Invalid value for keyword: pattern.' },
+    ]);
+    expect(checkJSONSchema({ $ref: 'https://domain.com/schema.json' })).toEqual([
+      {
+        pointer: '',
+        detail: "Could not compile schema, can't resolve reference https://domain.com/schema.json from id #.",
+      },
+    ]);
+    expect(checkJSONSchema({ type: 'string', format: 'unknown' })).toEqual([
+      { pointer: '', detail: 'Could not compile schema, unknown format "unknown" is used in schema at path "#".' },
+    ]);
+  });
+
+  it('should compute percentiles from the values at the closest ranks', () => {
+    expect(percentileRanks(4, [25, 50, 75])).toEqual([0, 1, 2, 3]);
+    expect(percentileRanks(5, [0, 50, 100])).toEqual([0, 2, 4]);
+    expect(percentileRanks(0, [50])).toEqual([]);
+
+    expect(interpolatePercentiles(4, [25, 50], { 0: 10, 1: 20, 2: 30 })).toEqual({ p25: 17.5, p50: 25 });
+    expect(interpolatePercentiles(0, [50], {})).toEqual({ p50: null });
+  });
+});
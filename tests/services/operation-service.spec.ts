@@ -0,0 +1,57 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { OperationStatusEnum } from '../../src/models/OperationModel';
+import { isResultSettled, resolveOperationStatus } from '../../src/services/operation-service';
+
+describe('Operations', () => {
+  it('should check settled results', () => {
+    expect(isResultSettled([], [], ['a'])).toBe(false);
+    expect(isResultSettled(['a'], [], ['a', 'b'])).toBe(false);
+    expect(isResultSettled(['a'], ['b'], ['a', 'b'])).toBe(true);
+    expect(isResultSettled([], [], [])).toBe(false);
+    expect(isResultSettled(['a'], [], [])).toBe(true); // all metrics requested;
+  });
+
+  it('should resolve operation status', () => {
+    const operation = (received: string[], rejected: string[] = [], status = OperationStatusEnum.QUEUED) => ({
+      id: 'op',
+      type: 'calculate',
+      location: 'l1',
+      resources: ['a', 'b'],
+      status,
+      received,
+      rejected,
+    });
+
+    expect(resolveOperationStatus(operation([]))).toEqual(OperationStatusEnum.QUEUED);
+    expect(resolveOperationStatus(operation(['a']))).toEqual(OperationStatusEnum.RUNNING);
+    expect(resolveOperationStatus(operation(['a', 'b']))).toEqual(OperationStatusEnum.SUCCEEDED);
+    expect(resolveOperationStatus(operation(['a'], ['b']))).toEqual(OperationStatusEnum.FAILED);
+    expect(resolveOperationStatus({ ...operation(['a']), resources: [], expected: ['a', 'b'] })).toEqual(
+      OperationStatusEnum.RUNNING
+    );
+    expect(resolveOperationStatus({ ...operation(['a', 'b']), resources: [], expected: ['a', 'b'] })).toEqual(
+      OperationStatusEnum.SUCCEEDED
+    );
+    expect(resolveOperationStatus(operation([], [], OperationStatusEnum.SUCCEEDED))).toEqual(
+      OperationStatusEnum.SUCCEEDED
+    );
+  });
+});
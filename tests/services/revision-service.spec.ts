@@ -0,0 +1,43 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { diffLocationSnapshots } from '../../src/services/revision-service';
+
+describe('Revisions', () => {
+  it('should diff location snapshots', () => {
+    const from = { version: 1, name: 'a', description: 'x', geojson: { a: 1 }, bbox2d: [0, 0, 1, 1], areaKm2: 100 };
+    const to = { version: 2, name: 'b', description: 'x', geojson: { a: 2 }, bbox2d: [0, 0, 2, 2], areaKm2: 150 };
+
+    expect(diffLocationSnapshots(from, to)).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      changes: ['name', 'geojson'],
+      areaKm2: { from: 100, to: 150, change: 50, changePercentage: 50 },
+      bbox2d: { from: [0, 0, 1, 1], to: [0, 0, 2, 2], change: [0, 0, 1, 1] },
+    });
+  });
+
+  it('should diff snapshots without geometries', () => {
+    const diff = diffLocationSnapshots({ version: 0, name: 'a' }, { version: 1, name: 'a', bbox2d: [] });
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.areaKm2.change).toBeNull();
+    expect(diff.bbox2d.change).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { CompositeType } from '../../src/services/earthengine';
+import { getTimeDimension, resolveDateRange, TimeIntervalEnum } from '../../src/services/time-dimension-service';
+
+describe('getTimeDimension', () => {
+  it('returns the time dimension of the layer config', () => {
+    const timeDimension = { default: '2019-01-01', composite: CompositeType.MEDIAN };
+
+    expect(getTimeDimension({ source: { assetId: 'x', timeDimension } })).toEqual(timeDimension);
+    expect(getTimeDimension({ source: { assetId: 'x' } })).toBeNull();
+  });
+});
+
+describe('resolveDateRange', () => {
+  const timeDimension = {
+    dates: ['2018-01-01', '2019-01-01'],
+    default: '2019-01-01',
+    interval: TimeIntervalEnum.YEAR,
+  };
+
+  it('resolves the interval covered by a date', () => {
+    expect(resolveDateRange(timeDimension, { date: '2018-01-01' })).toEqual({ start: '2018-01-01', end: '2019-01-01' });
+    expect(resolveDateRange(timeDimension)).toEqual({ start: '2019-01-01', end: '2020-01-01' });
+    expect(resolveDateRange({ default: '2020-02-28' })).toEqual({ start: '2020-02-28', end: '2020-02-29' });
+    expect(resolveDateRange({})).toBeNull();
+  });
+
+  it('resolves custom date ranges', () => {
+    expect(resolveDateRange(timeDimension, { start: '2018-06-01', end: '2019-06-01' })).toEqual({
+      start: '2018-06-01',
+      end: '2019-06-01',
+    });
+  });
+
+  it('throws when the parameters are invalid', () => {
+    expect(() => resolveDateRange(timeDimension, { date: '2017-01-01' })).toThrow(
+      'Date not available for layer: 2017-01-01'
+    );
+    expect(() => resolveDateRange(timeDimension, { start: '2018-06-01' })).toThrow(
+      'Parameters start and end are required together.'
+    );
+    expect(() => resolveDateRange(timeDimension, { start: '2019-06-01', end: '2018-06-01' })).toThrow(
+      'Parameter start must be before end.'
+    );
+    expect(() => resolveDateRange(timeDimension, { start: '2019-13-01', end: '2020-01-01' })).toThrow(
+      'Invalid format for parameter: start'
+    );
+  });
+});
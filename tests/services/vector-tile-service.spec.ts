@@ -0,0 +1,86 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { VectorTile } from '@mapbox/vector-tile';
+import * as turf from '@turf/turf';
+import Pbf from 'pbf';
+
+import { createVectorTile, MVT_EXTENT, tileToBbox, VectorTileService } from '../../src/services/vector-tile-service';
+
+const decodeTile = (tile: Buffer) => new VectorTile(new Pbf(tile));
+
+describe('Vector tiles', () => {
+  it('should compute tile bounds', () => {
+    const [minX, minY, maxX, maxY] = tileToBbox(0, 0, 0);
+
+    expect(minX).toBe(-180);
+    expect(maxX).toBe(180);
+    expect(minY).toBeCloseTo(-85.0511, 3);
+    expect(maxY).toBeCloseTo(85.0511, 3);
+  });
+
+  it('should encode a polygon tile', () => {
+    const geometry = turf.bboxPolygon([-90, -45, 90, 45]).geometry;
+    const tile = createVectorTile('locations', [{ geometry, properties: { name: 'a', count: 1 } }], 0, 0, 0);
+
+    const layer = decodeTile(tile).layers.locations;
+    expect(layer.version).toBe(2);
+    expect(layer.extent).toBe(MVT_EXTENT);
+    expect(layer.length).toBe(1);
+
+    const feature = layer.feature(0);
+    expect(feature.type).toBe(3); // polygon;
+    expect(feature.properties).toEqual({ name: 'a', count: 1 });
+  });
+
+  it('should encode multi-points as a single feature', () => {
+    const geometry = turf.multiPoint([
+      [-90, 45],
+      [0, 0],
+      [90, -45],
+    ]).geometry;
+    const tile = createVectorTile('locations', [{ geometry, properties: { name: 'a' } }], 0, 0, 0);
+
+    const layer = decodeTile(tile).layers.locations;
+    expect(layer.length).toBe(1);
+
+    const feature = layer.feature(0);
+    expect(feature.type).toBe(1); // point;
+    expect(feature.toGeoJSON(0, 0, 0).geometry.type).toBe('MultiPoint');
+    expect(feature.loadGeometry()).toHaveLength(3);
+  });
+
+  it('should skip geometries outside the tile', () => {
+    const geometry = turf.bboxPolygon([10, 10, 20, 20]).geometry;
+    const tile = createVectorTile('locations', [{ geometry, properties: { name: 'a' } }], 2, 0, 0);
+
+    const layer = decodeTile(tile).layers.locations;
+    expect(layer ? layer.length : 0).toBe(0);
+  });
+
+  it('should load the features of a tile without a cache', async () => {
+    const geometry = turf.bboxPolygon([-90, -45, 90, 45]).geometry;
+    const loadFeatures = jest.fn(async () => [{ geometry, properties: { name: 'a' } }]);
+
+    const tile = await new VectorTileService().getTile('locations', 'hash', loadFeatures, 0, 0, 0);
+
+    expect(loadFeatures).toHaveBeenCalledTimes(1);
+    expect(decodeTile(tile).layers.locations.length).toBe(1);
+  });
+});
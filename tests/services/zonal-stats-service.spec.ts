@@ -0,0 +1,76 @@
+/*
+  Copyright 2018-2020 National Geographic Society
+
+  Use of this software does not constitute endorsement by National Geographic
+  Society (NGS). The NGS name and NGS logo may not be used for any purpose without
+  written permission from NGS.
+
+  Licensed under the Apache License, Version 2.0 (the "License"); you may not use
+  this file except in compliance with the License. You may obtain a copy of the
+  License at
+
+      https://www.apache.org/licenses/LICENSE-2.0
+
+  Unless required by applicable law or agreed to in writing, software distributed
+  under the License is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+  CONDITIONS OF ANY KIND, either express or implied. See the License for the
+  specific language governing permissions and limitations under the License.
+*/
+
+import { LocationTypeEnum } from '../../src/models/LocationModel';
+import { ReducerType } from '../../src/services/earthengine';
+import { isStatsCacheable, parseStatsOptions, ZonalStatsService } from '../../src/services/zonal-stats-service';
+
+describe('parseStatsOptions', () => {
+  it('defaults to the mean reducer', () => {
+    expect(parseStatsOptions({})).toEqual({ reducers: [ReducerType.MEAN] });
+  });
+
+  it('parses the reducers, percentiles and scale', () => {
+    expect(parseStatsOptions({ reducers: 'sum, percentiles,sum', percentiles: '75,25,75', scale: '30' })).toEqual({
+      reducers: [ReducerType.SUM, ReducerType.PERCENTILES],
+      percentiles: [25, 75],
+      scale: 30,
+    });
+    expect(parseStatsOptions({ reducers: 'percentiles' })).toEqual({
+      reducers: [ReducerType.PERCENTILES],
+      percentiles: [25, 50, 75],
+    });
+    expect(parseStatsOptions({ reducers: 'mean', percentiles: '10' })).toEqual({ reducers: [ReducerType.MEAN] });
+  });
+});
+
+describe('ZonalStatsService', () => {
+  const layer = { id: 'layer', version: 1, config: { source: { assetId: 'asset' } } };
+  const location = { id: 'location', type: LocationTypeEnum.COUNTRY, version: 2 };
+
+  it('caches the statistics of versioned layers and locations', () => {
+    expect(isStatsCacheable(layer, location)).toBe(true);
+    expect(isStatsCacheable(layer, { ...location, type: LocationTypeEnum.COLLECTION })).toBe(false);
+    expect(isStatsCacheable({ ...layer, version: undefined }, location)).toBe(false);
+    expect(isStatsCacheable(layer, { ...location, version: null })).toBe(false);
+  });
+
+  it('keys the statistics by versions and reducer options', () => {
+    const service = new ZonalStatsService();
+    const options = { reducers: [ReducerType.MEAN, ReducerType.PERCENTILES], percentiles: [25, 75], scale: 30 };
+
+    expect(service.mkStatsCacheKey(layer, location, options)).toEqual(
+      'ZONAL_STATS-layer-1-location-2-mean,percentiles-25,75-30'
+    );
+    expect(service.mkStatsCacheKey(layer, location, { reducers: [ReducerType.MEAN] })).toEqual(
+      'ZONAL_STATS-layer-1-location-2-mean-undefined-undefined'
+    );
+    expect(service.mkStatsCacheKey({ ...layer, version: 2 }, location, options)).not.toEqual(
+      service.mkStatsCacheKey(layer, location, options)
+    );
+  });
+
+  it('requires the asset of the layer', async () => {
+    const service = new ZonalStatsService();
+
+    await expect(service.compute({ ...layer, config: {} }, location, { reducers: [ReducerType.MEAN] })).rejects.toThrow(
+      'source.assetId'
+    );
+  });
+});